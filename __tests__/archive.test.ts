@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { gzipSync } from 'node:zlib';
+import { isArchiveFile, readArchive } from '@/lib/archive';
+import { names } from './helpers';
+
+/**
+ * Builds a stored (uncompressed) zip with a central directory
+ */
+function zip(files: { name: string; content?: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+  const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)];
+  // 2024-01-15 10:30
+  const time = (10 << 11) | (30 << 5);
+  const date = ((2024 - 1980) << 9) | (1 << 5) | 15;
+
+  for (const { name, content = '' } of files) {
+    const nameBytes = [...encoder.encode(name)];
+    const data = [...encoder.encode(content)];
+    const offset = local.length;
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0x800), ...u16(0), ...u16(time), ...u16(date),
+      ...u32(0), ...u32(data.length), ...u32(data.length), ...u16(nameBytes.length), ...u16(0), ...nameBytes, ...data);
+    central.push(...u32(0x02014b50), 20, 3, ...u16(20), ...u16(0x800), ...u16(0), ...u16(time), ...u16(date),
+      ...u32(0), ...u32(data.length), ...u32(data.length), ...u16(nameBytes.length), ...u16(0), ...u16(0),
+      ...u16(0), ...u16(0), ...u32((name.endsWith('/') ? 0o40755 : 0o100644) << 16), ...u32(offset), ...nameBytes);
+  }
+
+  const end = [...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(files.length), ...u16(files.length),
+    ...u32(central.length), ...u32(local.length), ...u16(0)];
+  return new Uint8Array([...local, ...central, ...end]);
+}
+
+/**
+ * Builds a ustar archive
+ */
+function tar(entries: { name: string; type?: string; content?: string; target?: string; size?: number }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array[] = [];
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+
+  for (const { name, type = '0', content = '', target = '', size = content.length } of entries) {
+    const header = new Uint8Array(512);
+    const write = (text: string, offset: number) => header.set(encoder.encode(text), offset);
+    write(name, 0);
+    write(octal(type === '5' ? 0o755 : 0o644, 8), 100);
+    write(octal(size, 12), 124);
+    write(octal(Date.UTC(2024, 0, 15) / 1000, 12), 136);
+    write('        ', 148);
+    write(type, 156);
+    write(target, 157);
+    write('ustar\0' + '00', 257);
+    write(octal(header.reduce((sum, byte) => sum + byte, 0), 7), 148);
+
+    const data = new Uint8Array(Math.ceil(content.length / 512) * 512);
+    data.set(encoder.encode(content));
+    blocks.push(header, data);
+  }
+  blocks.push(new Uint8Array(1024));
+
+  const result = new Uint8Array(blocks.reduce((length, block) => length + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    result.set(block, offset);
+    offset += block.length;
+  }
+  return result;
+}
+
+const TAR_ENTRIES = [
+  { name: 'release/', type: '5' },
+  { name: 'release/bin/run', content: '#!/bin/sh\n' },
+  { name: 'release/README.md', content: 'hello' },
+  { name: 'release/current', type: '2', target: 'bin/run' },
+];
+
+describe('Archive Import', () => {
+  it('should recognise archive file names', () => {
+    expect(isArchiveFile({ name: 'release.tar.gz' })).toBe(true);
+    expect(isArchiveFile({ name: 'bundle.ZIP' })).toBe(true);
+    expect(isArchiveFile({ name: 'notes.txt' })).toBe(false);
+  });
+
+  it('should list a zip from its central directory', async () => {
+    const result = await readArchive(zip([
+      { name: 'app/' },
+      { name: 'app/index.js', content: 'console.log(1);' },
+      { name: 'app/lib/util.js', content: 'x' },
+      { name: '__MACOSX/app/._index.js' },
+    ]));
+
+    expect(names(result.nodes)).toEqual(['app']);
+    const app = result.nodes[0];
+    expect(names(app.children!)).toEqual(['index.js', 'lib']);
+    expect(app.children![0].size).toBe(15);
+    expect(app.children![0].modified).toBe('2024-01-15 10:30');
+    expect(app.children![0].mode).toBe('-rw-r--r--');
+    expect(app.mode).toBe('drwxr-xr-x');
+    expect(app.children![1].type).toBe('folder');
+    expect(app.children![1].children![0].id).toBe('app/lib/util.js');
+    expect(result.entryCount).toBe(3);
+  });
+
+  it('should list a tar with sizes, modes and symlinks', async () => {
+    const result = await readArchive(tar(TAR_ENTRIES));
+
+    const release = result.nodes[0];
+    expect(names(release.children!)).toEqual(['bin', 'README.md', 'current']);
+    expect(release.children![1].size).toBe(5);
+    expect(release.children![1].mode).toBe('-rw-r--r--');
+    expect(release.children![2].type).toBe('symlink');
+    expect(release.children![2].target).toBe('bin/run');
+  });
+
+  it('should decompress a tar.gz', async () => {
+    const result = await readArchive(new Uint8Array(gzipSync(tar(TAR_ENTRIES))));
+
+    expect(names(result.nodes)).toEqual(['release']);
+    expect(result.nodes[0].children![0].children![0].name).toBe('run');
+  });
+
+  it('should follow pax and GNU long names', async () => {
+    const longName = `deep/${'x'.repeat(120)}.txt`;
+    const record = ` path=${longName}\n`;
+    const pax = `${record.length + String(record.length + 3).length}${record}`;
+
+    const result = await readArchive(tar([
+      { name: 'PaxHeader', type: 'x', content: pax },
+      { name: 'truncated-name' },
+      { name: '././@LongLink', type: 'L', content: 'other/long-name.txt\0' },
+      { name: 'other/long-n' },
+    ]));
+
+    expect(names(result.nodes)).toEqual(['deep', 'other']);
+    expect(result.nodes[0].children![0].name).toBe(`${'x'.repeat(120)}.txt`);
+    expect(result.nodes[1].children![0].name).toBe('long-name.txt');
+  });
+
+  it('should skip file data by the pax size when the header size is not set', async () => {
+    const record = ' size=600\n';
+    const pax = `${record.length + String(record.length + 3).length}${record}`;
+
+    const result = await readArchive(tar([
+      { name: 'PaxHeader', type: 'x', content: pax },
+      { name: 'huge.bin', content: 'a'.repeat(600), size: 0 },
+      { name: 'after.txt', content: 'b' },
+    ]));
+
+    expect(names(result.nodes)).toEqual(['huge.bin', 'after.txt']);
+    expect(result.nodes[0].size).toBe(600);
+  });
+
+  it('should reject files that are not archives', async () => {
+    await expect(readArchive(new TextEncoder().encode('just some text'))).rejects.toThrow(
+      'Not a zip, tar or tar.gz archive'
+    );
+  });
+});
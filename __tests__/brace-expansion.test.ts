@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { names, parse } from './helpers';
+
+describe('Brace Expansion', () => {
+  describe('markdown input', () => {
+    it('should expand comma lists and copy children to every expansion', () => {
+      const nodes = parse(`- packages/
+  - {core,cli,web}/
+    - src/
+      - index.ts`);
+
+      const packages = nodes[0].children!;
+      expect(names(packages)).toEqual(['core', 'cli', 'web']);
+      packages.forEach(pkg => {
+        expect(pkg.type).toBe('folder');
+        expect(pkg.children![0].children![0].name).toBe('index.ts');
+      });
+      expect(packages[2].children![0].children![0].id).toBe('packages/web/src/index.ts');
+    });
+
+    it('should expand numeric ranges with zero padding and steps', () => {
+      expect(names(parse('- part{1..3}.md'))).toEqual(['part1.md', 'part2.md', 'part3.md']);
+      expect(names(parse('- {08..11}.sql'))).toEqual(['08.sql', '09.sql', '10.sql', '11.sql']);
+      expect(names(parse('- v{0..10..5}'))).toEqual(['v0', 'v5', 'v10']);
+      expect(names(parse('- {c..a}.txt'))).toEqual(['c.txt', 'b.txt', 'a.txt']);
+    });
+
+    it('should expand nested and repeated groups', () => {
+      expect(names(parse('- {a,b{1..2}}.{js,ts}'))).toEqual([
+        'a.js', 'a.ts', 'b1.js', 'b1.ts', 'b2.js', 'b2.ts',
+      ]);
+    });
+
+    it('should merge siblings that expand to the same path', () => {
+      const nodes = parse(`- {src,test}/
+  - index.ts
+- src/
+  - utils.ts`);
+
+      expect(names(nodes)).toEqual(['src', 'test']);
+      expect(names(nodes[0].children!)).toEqual(['index.ts', 'utils.ts']);
+    });
+
+    it('should split expanded paths into folders and merge expansions of the same path', () => {
+      const nodes = parse(`- packages/{core,cli}/src/
+- packages/{core,cli}/README.md
+- docs/guide.md
+- docs/guide.md`);
+
+      expect(names(nodes)).toEqual(['packages', 'docs/guide.md', 'docs/guide.md']);
+      expect(names(nodes[0].children!)).toEqual(['core', 'cli']);
+      expect(names(nodes[0].children![0].children!)).toEqual(['src', 'README.md']);
+      expect(nodes[0].children![0].children![0]).toMatchObject({ type: 'folder', depth: 2, id: 'packages/core/src' });
+    });
+
+    it('should leave two large ranges unexpanded without building them', () => {
+      const started = Date.now();
+      const nodes = parse('- a{1..2000}b{1..2000}.txt\n- {1..9999}{1..9999}');
+
+      expect(names(nodes)).toEqual(['a{1..2000}b{1..2000}.txt', '{1..9999}{1..9999}']);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should leave names without an expandable group alone', () => {
+      expect(names(parse('- {{cookiecutter.name}}/\n- {single}.txt'))).toEqual([
+        '{{cookiecutter.name}}',
+        '{single}.txt',
+      ]);
+    });
+  });
+
+  describe('path list input', () => {
+    it('should expand braces spanning path segments and merge shared folders', () => {
+      const nodes = parse(`packages/{core,cli}/src/index.ts
+packages/core/package.json
+migrations/00{1..3}.sql`);
+
+      expect(names(nodes)).toEqual(['packages', 'migrations']);
+      expect(names(nodes[0].children!)).toEqual(['core', 'cli']);
+      expect(names(nodes[0].children![0].children!)).toEqual(['src', 'package.json']);
+      expect(names(nodes[1].children!)).toEqual(['001.sql', '002.sql', '003.sql']);
+    });
+  });
+});
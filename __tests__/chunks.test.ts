@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { countNodes, splitTreeIntoChunks } from '@/lib/chunks';
+import { useTreeState } from '@/hooks/useTreeState';
+import { parse } from './helpers';
+
+// 3 packages of 1 folder + 4 files each, plus a root file
+const MONOREPO = `- packages/
+${[1, 2, 3].map(n => `  - pkg${n}/\n${[1, 2, 3, 4].map(f => `    - file${f}.ts`).join('\n')}`).join('\n')}
+- package.json`;
+
+describe('Tree Chunks', () => {
+  it('should count nodes recursively', () => {
+    expect(countNodes(parse(MONOREPO))).toBe(17);
+  });
+
+  it('should keep small trees in a single chunk', () => {
+    const nodes = parse(MONOREPO);
+    const chunks = splitTreeIntoChunks(nodes, 100);
+
+    expect(chunks).toEqual([{ parentId: null, nodes }]);
+  });
+
+  it('should split large folders and respect the chunk size', () => {
+    const nodes = parse(MONOREPO);
+    const chunks = splitTreeIntoChunks(nodes, 5);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0]).toEqual({ parentId: null, nodes: [{ ...nodes[0], children: [] }] });
+    chunks.forEach(chunk => expect(countNodes(chunk.nodes)).toBeLessThanOrEqual(5));
+    expect(chunks.reduce((total, chunk) => total + countNodes(chunk.nodes), 0)).toBe(17);
+  });
+
+  it('should rebuild the original tree when appended in order', () => {
+    const nodes = parse(MONOREPO);
+    const [first, ...rest] = splitTreeIntoChunks(nodes, 3);
+    const { result } = renderHook(() => useTreeState());
+
+    act(() => {
+      result.current.setTree(first.nodes);
+      rest.forEach(chunk => result.current.appendNodes(chunk));
+    });
+
+    expect(result.current.state.nodes).toEqual(nodes);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { formatTreeToText } from '@/lib/formatter';
+import { parse } from './helpers';
+
+const TREE = `- project/
+  - src/
+    - index.ts
+  - README.md`;
+
+describe('Diagram Exports', () => {
+  it('should draw a Mermaid flowchart with styled folders and files', () => {
+    expect(formatTreeToText(parse(TREE), { style: 'mermaid' })).toBe(
+      [
+        'flowchart LR',
+        '  n0["project/"]:::folder',
+        '  n1["src/"]:::folder',
+        '  n2("index.ts"):::file',
+        '  n3("README.md"):::file',
+        '  n0 --> n1',
+        '  n1 --> n2',
+        '  n0 --> n3',
+        '  classDef folder fill:#fef3c7,stroke:#d97706',
+        '  classDef file fill:#f1f5f9,stroke:#64748b',
+      ].join('\n')
+    );
+  });
+
+  it('should escape Mermaid labels with entity codes', () => {
+    const text = formatTreeToText(parse('- say "hi" <v#1>.md'), { style: 'mermaid' });
+
+    expect(text.split('\n')[1]).toBe('  n0("say #quot;hi#quot; #lt;v#35;1#gt;.md"):::file');
+  });
+
+  it('should nest a Mermaid mindmap under a single root', () => {
+    expect(formatTreeToText(parse(TREE), { style: 'mermaid-mindmap' }).split('\n')).toEqual([
+      'mindmap',
+      '  n0["project/"]',
+      '    n1["src/"]',
+      '      n2("index.ts")',
+      '    n3("README.md")',
+    ]);
+    expect(formatTreeToText(parse('- a.ts\n- b.ts'), { style: 'mermaid-mindmap' }).split('\n')).toEqual([
+      'mindmap',
+      '  root((.))',
+      '    n0("a.ts")',
+      '    n1("b.ts")',
+    ]);
+  });
+
+  it('should write a Graphviz digraph with escaped labels', () => {
+    const lines = formatTreeToText(parse('- docs/\n  - C:\\notes "v2".txt'), { style: 'dot' }).split('\n');
+
+    expect(lines[0]).toBe('digraph tree {');
+    expect(lines[3]).toBe('  n0 [label="docs/", shape=folder, fillcolor="#fef3c7", color="#d97706"];');
+    expect(lines[4]).toBe('  n1 [label="C:\\\\notes \\"v2\\".txt", shape=note, fillcolor="#f1f5f9", color="#64748b"];');
+    expect(lines.slice(5)).toEqual(['  n0 -> n1;', '}']);
+  });
+
+  it('should write a PlantUML WBS with coloured levels and escaped markup', () => {
+    expect(formatTreeToText(parse('- pkg/\n  - __init__.py'), { style: 'plantuml' }).split('\n')).toEqual([
+      '@startwbs',
+      '*[#fef3c7] pkg/',
+      '**[#f1f5f9] ~__init~__.py',
+      '@endwbs',
+    ]);
+  });
+
+  it('should write a PlantUML Salt tree with icons', () => {
+    expect(formatTreeToText(parse(TREE), { style: 'plantuml-salt' }).split('\n')).toEqual([
+      '@startsalt',
+      '{',
+      '{T',
+      '+ <&folder> project',
+      '++ <&folder> src',
+      '+++ <&file> index.ts',
+      '++ <&file> README.md',
+      '}',
+      '}',
+      '@endsalt',
+    ]);
+  });
+});
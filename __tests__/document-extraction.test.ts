@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { names } from './helpers';
+
+const README = `# My Project
+
+A small library for parsing things.
+
+## Project Structure
+
+\`\`\`
+my-project/
+├── src/
+│   └── index.ts
+└── package.json
+\`\`\`
+
+## Installation
+
+\`\`\`bash
+npm install my-project
+\`\`\`
+
+## Tests
+
+\`\`\`text
+tests/
+├── unit/
+└── e2e/
+\`\`\`
+`;
+
+describe('Document Extraction', () => {
+  it('should parse the fenced tree in a README', () => {
+    const result = parseDirectoryStructure(README);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['my-project']);
+    expect(names(result.nodes[0].children!)).toEqual(['src', 'package.json']);
+    expect(result.format).toBe('ascii');
+  });
+
+  it('should list every tree with its heading and line range', () => {
+    const result = parseDirectoryStructure(README);
+
+    expect(result.trees).toEqual([
+      { startLine: 8, endLine: 11, label: 'Project Structure' },
+      { startLine: 23, endLine: 25, label: 'Tests' },
+    ]);
+    expect(result.treeIndex).toBe(0);
+  });
+
+  it('should parse another tree when picked by index', () => {
+    const result = parseDirectoryStructure(README, undefined, 1);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['tests']);
+    expect(names(result.nodes[0].children!)).toEqual(['unit', 'e2e']);
+    expect(result.treeIndex).toBe(1);
+  });
+
+  it('should report skipped trees and ignored text with their lines', () => {
+    const result = parseDirectoryStructure(README);
+
+    const messages = result.diagnostics.map(d => `${d.line}: ${d.message}`);
+    expect(messages).toEqual([
+      '1: Ignored 4 lines of surrounding text on lines 1-7',
+      '12: Ignored 7 lines of surrounding text on lines 12-22',
+      '23: Skipped another tree (Tests) on lines 23-25',
+      '26: Ignored 1 line of surrounding text on line 26',
+    ]);
+    expect(result.diagnostics.every(d => d.severity === 'warning')).toBe(true);
+  });
+
+  it('should find an unfenced tree between paragraphs of prose', () => {
+    const input = `The layout of the repository is as follows.
+
+- docs/
+  - guide.md
+- README.md
+
+Each folder has its own README.`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['docs', 'README.md']);
+    expect(result.trees).toEqual([{ startLine: 3, endLine: 5, label: 'Tree 1' }]);
+  });
+
+  it('should keep the line numbers of parser diagnostics', () => {
+    const input = `Here is the tree:
+
+\`\`\`
+- src/
+  - a.ts
+   - b.ts
+\`\`\``;
+
+    const result = parseDirectoryStructure(input);
+    const indentWarning = result.diagnostics.find(d => d.message.includes('indent'));
+
+    expect(indentWarning?.line).toBe(6);
+  });
+
+  it('should leave plain trees with comments and summaries alone', () => {
+    const input = `# Project layout
+.
+├── src
+│   └── index.ts
+└── package.json
+
+1 directory, 2 files`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['src', 'package.json']);
+    expect(result.trees).toBeUndefined();
+  });
+});
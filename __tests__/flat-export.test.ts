@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { formatTreeToText } from '@/lib/formatter';
+import { parse } from './helpers';
+
+const TREE = `- project/
+  - src/
+    - index.ts
+    - utils/
+  - README.md`;
+
+describe('Flat Exports', () => {
+  describe('path list', () => {
+    it('should write one path per line with folders ending in a slash', () => {
+      expect(formatTreeToText(parse(TREE), { style: 'paths' })).toBe(
+        ['project/', 'project/src/', 'project/src/index.ts', 'project/src/utils/', 'project/README.md'].join('\n')
+      );
+    });
+
+    it('should use Windows separators and leave out folders', () => {
+      const text = formatTreeToText(parse(TREE), { style: 'paths', pathSeparator: 'windows', filesOnly: true });
+
+      expect(text).toBe('project\\src\\index.ts\nproject\\README.md');
+    });
+
+    it('should parse back to the same tree', () => {
+      const nodes = parse(TREE);
+      const reparsed = parse(formatTreeToText(nodes, { style: 'paths' }));
+
+      expect(formatTreeToText(reparsed, { style: 'ascii' })).toBe(formatTreeToText(nodes, { style: 'ascii' }));
+    });
+  });
+
+  describe('CSV and TSV tables', () => {
+    it('should write path, name, type, depth and extension columns', () => {
+      expect(formatTreeToText(parse(TREE), { style: 'csv', filesOnly: true }).split('\n')).toEqual([
+        'path,name,type,depth,extension',
+        'project/src/index.ts,index.ts,file,2,ts',
+        'project/README.md,README.md,file,1,md',
+      ]);
+    });
+
+    it('should add metadata columns with sizes in bytes', () => {
+      const nodes = parse(`.
+├── [drwxr-xr-x 4.0K Jan 15 10:30]  assets
+│   └── [-rw-r--r-- 1.5K Jan 14 09:12]  logo.png
+└── [-rw-r--r--  120 Mar  2  2023]  README.md`);
+
+      expect(formatTreeToText(nodes, { style: 'tsv' }).split('\n')).toEqual([
+        'path\tname\ttype\tdepth\textension\tsize\tmodified\tmode',
+        'assets\tassets\tfolder\t0\t\t4096\tJan 15 10:30\tdrwxr-xr-x',
+        'assets/logo.png\tlogo.png\tfile\t1\tpng\t1536\tJan 14 09:12\t-rw-r--r--',
+        'README.md\tREADME.md\tfile\t0\tmd\t120\tMar 2 2023\t-rw-r--r--',
+      ]);
+      expect(formatTreeToText(nodes, { style: 'csv', includeMetadata: false }).split('\n')[0]).toBe(
+        'path,name,type,depth,extension'
+      );
+    });
+
+    it('should quote cells holding the delimiter or quotes', () => {
+      const nodes = parse('- "Q1, draft".md  # Budget, first pass\n- .gitignore');
+
+      expect(formatTreeToText(nodes, { style: 'csv' }).split('\n')).toEqual([
+        'path,name,type,depth,extension,description',
+        '"""Q1, draft"".md","""Q1, draft"".md",file,0,md,"Budget, first pass"',
+        '.gitignore,.gitignore,file,0,,',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_FOLDER_IMPORT_OPTIONS,
+  DirectoryHandle,
+  FileHandle,
+  importDirectoryHandle,
+  importFileList,
+} from '@/lib/folder-import';
+import { names } from './helpers';
+
+function file(path: string, content = ''): File {
+  const result = new File([content], path.split('/').pop()!, { lastModified: new Date(2024, 0, 15, 10, 30).getTime() });
+  Object.defineProperty(result, 'webkitRelativePath', { value: path });
+  return result;
+}
+
+function fileHandle(name: string, content = ''): FileHandle {
+  return { kind: 'file', name, getFile: async () => new File([content], name) };
+}
+
+function directoryHandle(name: string, children: (DirectoryHandle | FileHandle)[]): DirectoryHandle {
+  return {
+    kind: 'directory',
+    name,
+    values: async function* () {
+      yield* children;
+    },
+  };
+}
+
+const project = directoryHandle('project', [
+  fileHandle('package.json', '{}'),
+  directoryHandle('src', [fileHandle('index.ts', 'export {};'), directoryHandle('lib', [fileHandle('util.ts')])]),
+  directoryHandle('node_modules', [fileHandle('left-pad.js')]),
+  directoryHandle('.git', [fileHandle('HEAD')]),
+  fileHandle('.env'),
+  directoryHandle('empty', []),
+]);
+
+describe('Folder Import', () => {
+  it('should build the tree of a picked folder with sizes', async () => {
+    const result = await importDirectoryHandle(project);
+
+    expect(names(result.nodes)).toEqual(['project']);
+    const root = result.nodes[0];
+    expect(names(root.children!)).toEqual(['.env', 'empty', 'package.json', 'src']);
+    expect(root.children![1].type).toBe('folder');
+    expect(root.children![1].children).toEqual([]);
+    expect(root.children![2].size).toBe(2);
+    expect(root.children![3].children![1].id).toBe('project/src/lib');
+    expect(result.skippedCount).toBe(2);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should skip dotfiles when asked', async () => {
+    const result = await importDirectoryHandle(project, { ...DEFAULT_FOLDER_IMPORT_OPTIONS, skipDotfiles: true });
+
+    expect(names(result.nodes[0].children!)).toEqual(['empty', 'package.json', 'src']);
+    expect(result.skippedCount).toBe(3);
+  });
+
+  it('should list folders at the depth limit without their contents', async () => {
+    const result = await importDirectoryHandle(project, { ...DEFAULT_FOLDER_IMPORT_OPTIONS, maxDepth: 1 });
+
+    const src = result.nodes[0].children!.find(node => node.name === 'src')!;
+    expect(src.type).toBe('folder');
+    expect(src.children).toEqual([]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should not read folders at the depth limit', async () => {
+    const opened: string[] = [];
+    const watched = (handle: DirectoryHandle): DirectoryHandle => ({
+      ...handle,
+      values: async function* () {
+        opened.push(handle.name);
+        for await (const child of handle.values()) {
+          yield child.kind === 'directory' ? watched(child) : child;
+        }
+      },
+    });
+
+    await importDirectoryHandle(watched(project), { ...DEFAULT_FOLDER_IMPORT_OPTIONS, maxDepth: 1 });
+
+    expect(opened).toEqual(['project']);
+  });
+
+  it('should stop at the entry limit', async () => {
+    const result = await importDirectoryHandle(project, { ...DEFAULT_FOLDER_IMPORT_OPTIONS, maxEntries: 3 });
+
+    expect(result.entryCount).toBe(3);
+    expect(names(result.nodes[0].children!)).toEqual(['.env', 'empty']);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should build the tree of a webkitdirectory file list', async () => {
+    const result = await importFileList([
+      file('app/src/main.ts', 'main'),
+      file('app/README.md'),
+      file('app/node_modules/react/index.js'),
+    ]);
+
+    expect(names(result.nodes)).toEqual(['app']);
+    expect(names(result.nodes[0].children!)).toEqual(['README.md', 'src']);
+    expect(result.nodes[0].children![1].children![0].size).toBe(4);
+    expect(result.nodes[0].children![0].modified).toBe('2024-01-15 10:30');
+    expect(result.skippedCount).toBe(1);
+  });
+});
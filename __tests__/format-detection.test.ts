@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { detectInputFormat, parseDirectoryStructure } from '@/lib/parser';
+
+describe('Format Detection', () => {
+  it('should detect each format with high confidence', () => {
+    expect(detectInputFormat('- src/\n  - index.ts').format).toBe('markdown');
+    expect(detectInputFormat('.\n├── src\n│   └── index.ts\n└── README.md').format).toBe('ascii');
+    expect(detectInputFormat('C:.\n├───src\n│       index.ts').format).toBe('windows-tree');
+    expect(detectInputFormat('src\\index.ts\nsrc\\lib\\utils.ts').format).toBe('windows-paths');
+    expect(detectInputFormat('./src/index.ts\n./README.md').format).toBe('paths');
+    expect(detectInputFormat('[{"name": "src", "type": "folder"}]').format).toBe('json');
+    expect(detectInputFormat('[{"type": "directory", "name": ".", "contents": []}]').format).toBe('tree-json');
+    expect(detectInputFormat('src:\n  - index.ts').format).toBe('yaml');
+
+    const detection = detectInputFormat('.\n├── src\n│   └── index.ts\n└── README.md');
+    expect(detection.confidence).toBeGreaterThan(0.9);
+    expect(detection.alternatives).toEqual([]);
+  });
+
+  it('should rank every plausible format, best first', () => {
+    const detection = detectInputFormat('src/\n├── index.ts\npackage.json');
+
+    expect(detection.format).toBe('ascii');
+    expect(detection.scores.map(score => score.format)).toContain('markdown');
+    const confidences = detection.scores.map(score => score.confidence);
+    expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+  });
+
+  it('should offer alternatives for ambiguous input', () => {
+    // Plain names with a single path could be an outline or a path list
+    const detection = detectInputFormat('a.txt\nb.txt\nc.txt\nsrc/d.ts');
+
+    expect(detection.format).toBe('paths');
+    expect(detection.alternatives.map(score => score.format)).toContain('markdown');
+  });
+
+  it('should report unknown when nothing matches', () => {
+    const detection = detectInputFormat('# just a comment');
+
+    expect(detection.format).toBe('unknown');
+    expect(detection.confidence).toBe(0);
+  });
+
+  it('should parse with a forced format', () => {
+    const input = 'src/index.ts\nREADME.md';
+
+    const detected = parseDirectoryStructure(input);
+    expect(detected.success).toBe(true);
+    if (!detected.success) return;
+    expect(detected.format).toBe('paths');
+    expect(detected.nodes[0].children![0].name).toBe('index.ts');
+
+    const forced = parseDirectoryStructure(input, 'markdown');
+    expect(forced.success).toBe(true);
+    if (!forced.success) return;
+    expect(forced.format).toBe('markdown');
+    expect(forced.nodes.map(node => node.name)).toEqual(['src/index.ts', 'README.md']);
+  });
+
+  it('should report errors from a forced structured format', () => {
+    const result = parseDirectoryStructure('- src/', 'json');
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('JSON');
+  });
+});
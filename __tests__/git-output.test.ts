@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { detectInputFormat, parseDirectoryStructure } from '@/lib/parser';
+import { formatTreeToText } from '@/lib/formatter';
+import { names } from './helpers';
+
+const NAME_STATUS = [
+  'M\tsrc/index.ts',
+  'A\tsrc/feature/new.ts',
+  'D\tdocs/old.md',
+  'R087\tsrc/utils.ts\tsrc/lib/utils.ts',
+].join('\n');
+
+describe('Git Output Parser', () => {
+  it('should detect each git format', () => {
+    expect(detectInputFormat(NAME_STATUS).format).toBe('git');
+    expect(detectInputFormat(' M src/app.ts\n?? notes.txt').format).toBe('git');
+    expect(detectInputFormat('100644 blob 3b18e512dba79e4c8300dd08aeb37f8e728b8dad\tREADME.md').format).toBe('git');
+  });
+
+  it('should mark files from git diff --name-status', () => {
+    const result = parseDirectoryStructure(NAME_STATUS);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.format).toBe('git');
+    expect(names(result.nodes)).toEqual(['src', 'docs']);
+    const [src, docs] = result.nodes;
+    expect(src.status).toBeUndefined();
+    expect(src.children!.map(node => [node.name, node.status])).toEqual([
+      ['index.ts', 'modified'],
+      ['feature', undefined],
+      ['lib', undefined],
+    ]);
+    expect(src.children![1].children![0].status).toBe('added');
+    expect(docs.children![0].status).toBe('deleted');
+  });
+
+  it('should show a rename as a move to the new path', () => {
+    const result = parseDirectoryStructure(NAME_STATUS);
+    if (!result.success) return;
+
+    const moved = result.nodes[0].children![2].children![0];
+    expect(moved.name).toBe('utils.ts');
+    expect(moved.status).toBe('renamed');
+    expect(moved.renamedFrom).toBe('src/utils.ts');
+    expect(result.nodes[0].children!.some(node => node.name === 'utils.ts')).toBe(false);
+  });
+
+  it('should parse git status --porcelain with renames and quoted paths', () => {
+    const input = [
+      ' M lib/parser.ts',
+      'A  lib/git.ts',
+      'R  old.txt -> docs/new.txt',
+      '?? "caf\\303\\251 notes.md"',
+      '?? scratch/',
+    ].join('\n');
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['lib', 'docs', 'café notes.md', 'scratch']);
+    expect(result.nodes[0].children!.map(node => node.status)).toEqual(['modified', 'added']);
+    expect(result.nodes[1].children![0].renamedFrom).toBe('old.txt');
+    expect(result.nodes[2].status).toBe('added');
+    expect(result.nodes[3].type).toBe('folder');
+  });
+
+  it('should read modes, sizes and folders from git ls-tree -l', () => {
+    const input = [
+      '100644 blob 3b18e512dba79e4c8300dd08aeb37f8e728b8dad     120\tREADME.md',
+      '100755 blob 9daeafb9864cf43055ae93beb0afd6c7d144bfa4      48\tbin/run',
+      '040000 tree 4b825dc642cb6eb9a060e54bf8d69288fbee4904       -\tempty',
+    ].join('\n');
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['README.md', 'bin', 'empty']);
+    expect(result.nodes[0].size).toBe(120);
+    expect(result.nodes[0].mode).toBe('-rw-r--r--');
+    expect(result.nodes[1].children![0].mode).toBe('-rwxr-xr-x');
+    expect(result.nodes[2].type).toBe('folder');
+    expect(result.nodes[0].status).toBeUndefined();
+  });
+
+  it('should warn about lines that are not git output', () => {
+    const result = parseDirectoryStructure(`${NAME_STATUS}\nnot a git line`, 'git');
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ line: 5, severity: 'warning' }),
+    ]);
+  });
+});
+
+describe('Change Markers', () => {
+  const result = parseDirectoryStructure(NAME_STATUS);
+  const nodes = result.success ? result.nodes : [];
+
+  it('should write markers in ASCII and markdown output', () => {
+    const ascii = formatTreeToText(nodes, { style: 'ascii' });
+    expect(ascii).toContain('├── ~ index.ts');
+    expect(ascii).toContain('│   │   └── + new.ts');
+    expect(ascii).toContain('└── > utils.ts (from src/utils.ts)');
+    expect(ascii).toContain('└── - old.md');
+
+    const markdown = formatTreeToText(nodes, { style: 'markdown' });
+    expect(markdown).toContain('  - `~` index.ts');
+    expect(markdown).toContain('    - `+` new.ts');
+    expect(markdown).toContain('  - `-` old.md');
+    expect(markdown).not.toMatch(/- [+~>-] /);
+  });
+
+  it('should leave markers out when asked', () => {
+    const ascii = formatTreeToText(nodes, { style: 'ascii', includeStatus: false });
+    expect(ascii).toContain('├── index.ts');
+    expect(ascii).not.toContain('(from');
+  });
+
+  it('should keep statuses through JSON', () => {
+    const json = formatTreeToText(nodes, { style: 'json' });
+    const reparsed = parseDirectoryStructure(json);
+    if (!reparsed.success) return;
+
+    expect(reparsed.nodes[0].children![0].status).toBe('modified');
+    expect(reparsed.nodes[0].children![2].children![0].renamedFrom).toBe('src/utils.ts');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { detectInputFormat } from '@/lib/parser';
+import { formatTreeToText, GLYPH_SETS } from '@/lib/formatter';
+import { GlyphSetName, TreeNode } from '@/lib/types';
+import { parse } from './helpers';
+
+type Shape = { name: string; type: string; children?: Shape[] };
+
+function shape(nodes: TreeNode[]): Shape[] {
+  return nodes.map(node => ({
+    name: node.name,
+    type: node.type,
+    ...(node.children ? { children: shape(node.children) } : {}),
+  }));
+}
+
+// Files come first so the tree /F layout keeps the same order
+const TREE = `- project/
+  - package.json
+  - src/
+    - index.ts
+    - components/
+      - Button.tsx
+  - docs/`;
+
+describe('Connector Glyph Sets', () => {
+  const nodes = parse(TREE);
+
+  it('should draw each set with its own connectors', () => {
+    const lines = (glyphs: GlyphSetName) => formatTreeToText(nodes, { style: 'ascii', glyphs }).split('\n');
+
+    expect(lines('unicode')[2]).toBe('├── src/');
+    expect(lines('ascii').slice(2, 4)).toEqual(['|-- src/', '|   |-- index.ts']);
+    expect(lines('ascii')[6]).toBe('`-- docs/');
+    expect(lines('rounded')[4]).toBe('│   ╰── components/');
+    expect(lines('heavy')[3]).toBe('┃   ┣━━ index.ts');
+    expect(lines('double')[5]).toBe('║       ╚══ Button.tsx');
+  });
+
+  it('should read back every built-in set at every indent width', () => {
+    for (const glyphs of Object.keys(GLYPH_SETS) as GlyphSetName[]) {
+      for (const indentWidth of [3, 4, 6]) {
+        const text = formatTreeToText(nodes, { style: 'ascii', glyphs, indentWidth });
+        expect(shape(parse(text)), `${glyphs} at width ${indentWidth}`).toEqual(shape(nodes));
+      }
+    }
+  });
+
+  it('should widen connectors and guides with the indent width', () => {
+    const text = formatTreeToText(nodes, { style: 'ascii', indentWidth: 6 });
+
+    expect(text.split('\n').slice(2, 6)).toEqual([
+      '├──── src/',
+      '│     ├──── index.ts',
+      '│     └──── components/',
+      '│           └──── Button.tsx',
+    ]);
+  });
+
+  it('should keep indents wide enough for a connector', () => {
+    expect(formatTreeToText(nodes, { style: 'ascii', indentWidth: 1 })).toBe(
+      formatTreeToText(nodes, { style: 'ascii', indentWidth: 3 })
+    );
+  });
+
+  it('should lay out the windows set like tree /F /A', () => {
+    const text = formatTreeToText(nodes, { style: 'ascii', glyphs: 'windows' });
+
+    expect(text).toBe(
+      [
+        'project',
+        '|   package.json',
+        '|',
+        '+---src',
+        '|   |   index.ts',
+        '|   |',
+        '|   \\---components',
+        '|           Button.tsx',
+        '\\---docs',
+      ].join('\n')
+    );
+    expect(detectInputFormat(text).format).toBe('windows-tree');
+  });
+
+  it('should draw a custom set', () => {
+    const text = formatTreeToText(nodes, {
+      style: 'ascii',
+      glyphs: { branch: '+', last: '+', vertical: ':', horizontal: '.' },
+    });
+
+    expect(text.split('\n').slice(2, 6)).toEqual(['+.. src/', ':   +.. index.ts', ':   +.. components/', ':       +.. Button.tsx']);
+  });
+});
@@ -0,0 +1,18 @@
+import { parseDirectoryStructure } from '@/lib/parser';
+import { TreeNode } from '@/lib/types';
+
+/**
+ * Parses input with format detection, failing the test if it does not parse
+ */
+export function parse(input: string): TreeNode[] {
+  const result = parseDirectoryStructure(input);
+  if (!result.success) throw new Error(result.error);
+  return result.nodes;
+}
+
+/**
+ * Names of the nodes at one level, in order
+ */
+export function names(nodes: TreeNode[]): string[] {
+  return nodes.map(node => node.name);
+}
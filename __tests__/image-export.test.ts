@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { toCanvas } from 'html-to-image';
+import { createImageExportElement, exportAsImage } from '@/lib/export';
+
+vi.mock('html-to-image', () => ({
+  // The blob is never made, so exports stop after capturing
+  toCanvas: vi.fn(async () => ({ toBlob: (resolve: (blob: Blob | null) => void) => resolve(null) })),
+}));
+
+function createTreeView(): HTMLElement {
+  const tree = document.createElement('div');
+  tree.className = 'w-full h-full overflow-auto p-5';
+  tree.style.height = '200px';
+  tree.innerHTML = '<div role="treeitem">src</div><div role="treeitem">README.md</div>';
+  document.body.appendChild(tree);
+  return tree;
+}
+
+describe('Image Export', () => {
+  it('should copy the whole tree without its scrolling', () => {
+    const tree = createTreeView();
+    const container = createImageExportElement(tree);
+    const copy = container.lastElementChild as HTMLElement;
+
+    expect(copy).not.toBe(tree);
+    expect(copy.querySelectorAll('[role="treeitem"]')).toHaveLength(2);
+    expect(copy.style.overflow).toBe('visible');
+    expect(copy.style.height).toBe('auto');
+    expect(tree.style.height).toBe('200px');
+  });
+
+  it('should place the copy off-screen with the chosen padding', () => {
+    const container = createImageExportElement(createTreeView(), { padding: 40 });
+
+    expect(container.style.position).toBe('fixed');
+    expect(container.style.left).toBe('-100000px');
+    expect(container.style.padding).toBe('40px');
+  });
+
+  it('should add the title and caption above the tree', () => {
+    const container = createImageExportElement(createTreeView(), { title: 'Project <layout>', caption: 'As of v2' });
+    const [title, caption, copy] = Array.from(container.children) as HTMLElement[];
+
+    expect(title.textContent).toBe('Project <layout>');
+    expect(caption.textContent).toBe('As of v2');
+    expect(copy.style.marginTop).toBe('16px');
+  });
+
+  it('should leave out the header when there is no title or caption', () => {
+    const container = createImageExportElement(createTreeView(), { title: '' });
+
+    expect(container.children).toHaveLength(1);
+  });
+
+  it('should fall back to white when the page background is transparent', async () => {
+    document.body.style.backgroundColor = 'rgba(0, 0, 0, 0)';
+
+    await expect(exportAsImage(createTreeView(), { format: 'jpeg' })).rejects.toThrow();
+
+    expect(vi.mocked(toCanvas).mock.calls[0][1]).toMatchObject({ backgroundColor: '#ffffff' });
+    document.body.style.backgroundColor = '';
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { useTreeState } from '@/hooks/useTreeState';
+import { TreeView } from '@/components/TreeView';
+
+// Test component wrapper
+function DescribedTreeWrapper() {
+  const { state, setTree, toggleExpand, setDescription } = useTreeState();
+
+  // Initialize with test data
+  if (state.nodes.length === 0) {
+    const input = `- api/  # REST handlers
+  - users.ts`;
+
+    const result = parseDirectoryStructure(input);
+    if (result.success) {
+      setTree(result.nodes);
+    }
+  }
+
+  return (
+    <TreeView
+      nodes={state.nodes}
+      onToggleExpand={toggleExpand}
+      onDescriptionChange={setDescription}
+    />
+  );
+}
+
+describe('Description Editing Integration', () => {
+  it('should show descriptions parsed from comments', () => {
+    render(<DescribedTreeWrapper />);
+
+    expect(screen.getByText('# REST handlers')).toBeInTheDocument();
+  });
+
+  it('should edit a description', async () => {
+    const user = userEvent.setup();
+    render(<DescribedTreeWrapper />);
+
+    await user.click(screen.getByLabelText('Edit description of api'));
+
+    const input = screen.getByLabelText('Description of api');
+    expect(input).toHaveValue('REST handlers');
+
+    await user.clear(input);
+    await user.type(input, 'HTTP routes');
+    await user.keyboard('{Enter}');
+
+    expect(screen.getByText('# HTTP routes')).toBeInTheDocument();
+  });
+
+  it('should add and clear a description', async () => {
+    const user = userEvent.setup();
+    render(<DescribedTreeWrapper />);
+
+    await user.click(screen.getByLabelText('Edit description of users.ts'));
+    await user.type(screen.getByLabelText('Description of users.ts'), 'user routes');
+    await user.keyboard('{Enter}');
+    expect(screen.getByText('# user routes')).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('Edit description of users.ts'));
+    await user.clear(screen.getByLabelText('Description of users.ts'));
+    await user.keyboard('{Enter}');
+    expect(screen.queryByText('# user routes')).not.toBeInTheDocument();
+  });
+});
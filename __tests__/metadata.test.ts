@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { detectInputFormat } from '@/lib/parser';
+import { computeNodeSizes, formatTreeToText, formatSize, getNodeSize } from '@/lib/formatter';
+import { parse } from './helpers';
+
+const TREE_OUTPUT = `.
+├── [drwxr-xr-x 4.0K Jan 15 10:30]  assets
+│   ├── [-rw-r--r-- 1.5M Jan 14 09:12]  logo.png
+│   └── [-rw-r--r-- 512K Jan 14 09:12]  banner.jpg
+└── [-rw-r--r--  120 Mar  2  2023]  README.md
+
+1 directory, 3 files`;
+
+describe('File Metadata', () => {
+  describe('tree -p -s -h -D output', () => {
+    it('should move bracketed metadata out of node names', () => {
+      const nodes = parse(TREE_OUTPUT);
+
+      expect(nodes.map(node => node.name)).toEqual(['assets', 'README.md']);
+      expect(nodes[0].children![0]).toMatchObject({
+        name: 'logo.png',
+        mode: '-rw-r--r--',
+        size: 1.5 * 1024 * 1024,
+        modified: 'Jan 14 09:12',
+      });
+      expect(nodes[1]).toMatchObject({ size: 120, modified: 'Mar 2 2023' });
+    });
+
+    it('should read folders from the mode', () => {
+      const nodes = parse('.\n└── [drwxr-xr-x]  empty');
+
+      expect(nodes[0]).toMatchObject({ name: 'empty', type: 'folder', mode: 'drwxr-xr-x' });
+    });
+
+    it('should read byte sizes and skip user and group columns', () => {
+      const nodes = parse('.\n└── [-rw-r--r-- alice staff       2048]  data.bin');
+
+      expect(nodes[0]).toMatchObject({ name: 'data.bin', size: 2048 });
+    });
+
+    it('should keep brackets that hold no metadata', () => {
+      const nodes = parse('- [draft]  notes.md');
+
+      expect(nodes[0].name).toBe('[draft]  notes.md');
+      expect(nodes[0].size).toBeUndefined();
+    });
+  });
+
+  describe('du output', () => {
+    const DU_OUTPUT = `4.0K\t./src/index.ts
+12K\t./src/lib/parser.ts
+16K\t./src/lib
+24K\t./src
+8\t./README.md
+32K\t.`;
+
+    it('should detect du output and read its sizes', () => {
+      expect(detectInputFormat(DU_OUTPUT).format).toBe('du');
+
+      const nodes = parse(DU_OUTPUT);
+      expect(nodes.map(node => node.name)).toEqual(['src', 'README.md']);
+      expect(nodes[0]).toMatchObject({ type: 'folder', size: 24 * 1024 });
+      expect(nodes[0].children![1]).toMatchObject({ name: 'lib', type: 'folder', size: 16 * 1024 });
+      // Unsuffixed du sizes are 1K blocks
+      expect(nodes[1].size).toBe(8 * 1024);
+    });
+
+    it('should not take names starting with a number for du sizes', () => {
+      const input = '2024 report.pdf\n2025 report.pdf';
+
+      expect(detectInputFormat(input).format).not.toBe('du');
+      expect(parse(input).map(node => node.name)).toEqual(['2024 report.pdf', '2025 report.pdf']);
+      expect(parse(input)[0].size).toBeUndefined();
+    });
+
+    it('should read space-separated du columns holding paths', () => {
+      const nodes = parse('4.0K ./src/index.ts\n24K ./src');
+
+      expect(nodes[0]).toMatchObject({ name: 'src', size: 24 * 1024 });
+    });
+  });
+
+  describe('folder sizes', () => {
+    it('should roll folder sizes up from their contents', () => {
+      const assets = parse(TREE_OUTPUT)[0];
+
+      expect(getNodeSize(assets)).toBe(1.5 * 1024 * 1024 + 512 * 1024);
+    });
+
+    it('should keep a folder total larger than its listed contents', () => {
+      const [folder] = parse('1.0M\tdocs\n4.0K\tdocs/a.md');
+
+      expect(getNodeSize(folder)).toBe(1024 * 1024);
+    });
+
+    it('should work out every size of a tree in one pass', () => {
+      const nodes = parse(TREE_OUTPUT);
+      const sizes = computeNodeSizes(nodes);
+
+      expect(sizes.get(nodes[0])).toBe(1.5 * 1024 * 1024 + 512 * 1024);
+      expect(sizes.get(nodes[0].children![1])).toBe(512 * 1024);
+      expect(sizes.get(nodes[1])).toBe(120);
+    });
+
+    it('should format sizes like tree -h', () => {
+      expect(formatSize(120)).toBe('120');
+      expect(formatSize(1536)).toBe('1.5K');
+      expect(formatSize(12 * 1024 * 1024)).toBe('12M');
+    });
+  });
+
+  describe('export', () => {
+    const nodes = parse(TREE_OUTPUT);
+
+    it('should write metadata back as a tree prefix by default', () => {
+      const ascii = formatTreeToText(nodes, { style: 'ascii' });
+
+      expect(ascii).toContain('├── [drwxr-xr-x 2.0M Jan 15 10:30]  assets/');
+      expect(ascii).toContain('│   ├── [-rw-r--r-- 1.5M Jan 14 09:12]  logo.png');
+      expect(parse(ascii)).toEqual(parse(formatTreeToText(parse(ascii), { style: 'ascii' })));
+    });
+
+    it('should round-trip metadata through markdown and JSON', () => {
+      for (const style of ['markdown', 'json', 'tree-json'] as const) {
+        const logo = parse(formatTreeToText(nodes, { style }))[0].children![0];
+        expect(logo).toMatchObject({ mode: '-rw-r--r--', size: 1.5 * 1024 * 1024, modified: 'Jan 14 09:12' });
+      }
+    });
+
+    it('should drop metadata when asked to', () => {
+      const markdown = formatTreeToText(nodes, { style: 'markdown', includeMetadata: false });
+
+      expect(markdown).toBe('- assets/\n  - logo.png\n  - banner.jpg\n- README.md');
+      expect(formatTreeToText(nodes, { style: 'json', includeMetadata: false })).not.toContain('size');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { createNodeId } from '@/lib/ids';
+import { useTreeState } from '@/hooks/useTreeState';
+import { parse } from './helpers';
+
+const INPUT = `- src/
+  - components/
+    - Button.tsx
+  - index.ts
+- README.md`;
+
+describe('Node IDs', () => {
+  it('should derive IDs from node paths', () => {
+    const nodes = parse(INPUT);
+
+    expect(nodes[0].id).toBe('src');
+    expect(nodes[0].children![0].id).toBe('src/components');
+    expect(nodes[0].children![0].children![0].id).toBe('src/components/Button.tsx');
+    expect(nodes[1].id).toBe('README.md');
+  });
+
+  it('should give the same IDs to the same tree in any input format', () => {
+    const ascii = parse(`src/
+├── components/
+│   └── Button.tsx
+└── index.ts
+README.md`);
+
+    expect(ascii).toEqual(parse(INPUT));
+    expect(parse(INPUT)).toEqual(parse(INPUT));
+  });
+
+  it('should encode names and suffix colliding paths', () => {
+    const used = new Set<string>();
+
+    expect(createNodeId(null, 'New Folder', used)).toBe('New%20Folder');
+    expect(createNodeId('New%20Folder', 'a/b', used)).toBe('New%20Folder/a%2Fb');
+    expect(createNodeId(null, 'New Folder', used)).toBe('New%20Folder~2');
+    expect(createNodeId(null, 'New Folder', used)).toBe('New%20Folder~3');
+  });
+
+  it('should keep duplicate siblings distinct', () => {
+    const nodes = parse('- a.txt\n- a.txt');
+
+    expect(nodes.map(node => node.id)).toEqual(['a.txt', 'a.txt~2']);
+  });
+
+  describe('reducer actions', () => {
+    it('should add nodes with path-based IDs', () => {
+      const { result } = renderHook(() => useTreeState());
+
+      act(() => result.current.setTree(parse(INPUT)));
+      act(() => result.current.addNode('src', 'file'));
+      act(() => result.current.addNode('src', 'file'));
+
+      const ids = result.current.state.nodes[0].children!.map(node => node.id);
+      expect(ids).toEqual(['src/components', 'src/index.ts', 'src/new-file.txt', 'src/new-file.txt~2']);
+    });
+
+    it('should keep IDs across renames without colliding', () => {
+      const { result } = renderHook(() => useTreeState());
+
+      act(() => result.current.setTree(parse('- docs/')));
+      act(() => result.current.addNode('docs', 'file'));
+      act(() => result.current.renameNode('docs/new-file.txt', 'guide.md'));
+      act(() => result.current.addNode('docs', 'file'));
+
+      const children = result.current.state.nodes[0].children!;
+      expect(children.map(node => [node.id, node.name])).toEqual([
+        ['docs/new-file.txt', 'guide.md'],
+        ['docs/new-file.txt~2', 'new-file.txt'],
+      ]);
+    });
+
+    it('should keep the selection when a re-parsed tree still contains it', () => {
+      const { result } = renderHook(() => useTreeState());
+
+      act(() => result.current.setTree(parse(INPUT)));
+      act(() => result.current.selectNode('src/index.ts'));
+      act(() => result.current.setTree(parse(`${INPUT}\n- package.json`)));
+      expect(result.current.state.selectedNodeId).toBe('src/index.ts');
+
+      act(() => result.current.setTree(parse('- lib/')));
+      expect(result.current.state.selectedNodeId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { names } from './helpers';
+
+describe('ASCII Parser', () => {
+  describe('tree command output', () => {
+    it('should drop the leading dot root and the summary line', () => {
+      const input = `.
+├── src
+│   ├── index.ts
+│   └── utils
+│       └── helpers.ts
+└── package.json
+
+2 directories, 3 files`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['src', 'package.json']);
+      expect(result.nodes[0].type).toBe('folder');
+      expect(names(result.nodes[0].children!)).toEqual(['index.ts', 'utils']);
+      expect(result.nodes[0].children![1].type).toBe('folder');
+      expect(result.nodes[0].children![1].children![0].depth).toBe(2);
+      expect(result.nodes[1].type).toBe('file');
+    });
+
+    it('should use a named root line as the root folder', () => {
+      const input = `project
+├── README.md
+└── docs
+    └── guide.md
+
+1 directory, 2 files`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.nodes).toHaveLength(1);
+      expect(result.nodes[0].name).toBe('project');
+      expect(result.nodes[0].type).toBe('folder');
+      expect(result.nodes[0].children![1].children![0].depth).toBe(2);
+    });
+
+    it('should handle non-breaking spaces in vertical guides', () => {
+      const input = '.\n├── a\n│\u00a0\u00a0 └── b.txt\n└── c.txt';
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['a', 'c.txt']);
+      expect(names(result.nodes[0].children!)).toEqual(['b.txt']);
+    });
+  });
+
+  describe('--charset=ascii output', () => {
+    it('should parse |-- and `-- connectors', () => {
+      const input = `.
+|-- lib
+|   |-- parser.ts
+|   \`-- types.ts
+\`-- README.md
+
+1 directory, 3 files`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['lib', 'README.md']);
+      expect(result.nodes[0].type).toBe('folder');
+      expect(names(result.nodes[0].children!)).toEqual(['parser.ts', 'types.ts']);
+    });
+  });
+
+  describe('tree -F markers', () => {
+    it('should strip type indicators and keep folder slashes', () => {
+      const input = `./
+├── bin/
+│   └── run.sh*
+├── latest@
+├── pipe|
+└── empty/`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['bin', 'latest', 'pipe', 'empty']);
+      expect(result.nodes[0].children![0].name).toBe('run.sh');
+      expect(result.nodes[3].type).toBe('folder');
+      expect(result.nodes[3].children).toEqual([]);
+    });
+
+    it('should keep trailing marker characters when folders are not marked', () => {
+      const input = `.
+├── docs
+│   └── notes=
+└── build*`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['docs', 'build*']);
+      expect(result.nodes[0].children![0].name).toBe('notes=');
+    });
+  });
+
+  it('should keep plain lines after a tree as root-level siblings', () => {
+    const input = `src/
+├── index.ts
+package.json`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['src', 'package.json']);
+    expect(result.nodes[1].depth).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { formatTreeToText } from '@/lib/formatter';
+
+describe('Comments as Descriptions', () => {
+  it('should keep inline comments on ASCII entries', () => {
+    const result = parseDirectoryStructure(`project/
+├── api/   # REST handlers
+│   └── users.ts
+└── C#/
+    └── #notes.md  # scratch`);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const [api, csharp] = result.nodes[0].children!;
+    expect(api).toMatchObject({ name: 'api', type: 'folder', description: 'REST handlers' });
+    expect(api.children![0].description).toBeUndefined();
+    expect(csharp).toMatchObject({ name: 'C#', type: 'folder' });
+    expect(csharp.children![0]).toMatchObject({ name: '#notes.md', description: 'scratch' });
+  });
+
+  it('should keep inline comments on markdown entries', () => {
+    const result = parseDirectoryStructure(`- src/ # application code
+  - #hash.ts
+  - main.ts  ## entry point`);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.nodes[0]).toMatchObject({ name: 'src', type: 'folder', description: 'application code' });
+    expect(result.nodes[0].children![0].name).toBe('#hash.ts');
+    expect(result.nodes[0].children![1].description).toBe('entry point');
+  });
+
+  it('should still drop full-line comments and headings', () => {
+    const result = parseDirectoryStructure(`## Layout
+- src/
+  # generated files below
+  - out.js`);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0].children!.map(node => node.name)).toEqual(['out.js']);
+    expect(result.diagnostics.map(d => d.line)).toEqual([1, 3]);
+  });
+
+  it('should keep comments on path list entries', () => {
+    const result = parseDirectoryStructure(`src/index.ts   # entry
+src/lib/util.ts`);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.nodes[0].children![0]).toMatchObject({ name: 'index.ts', description: 'entry' });
+  });
+
+  it('should write descriptions back as aligned comments', () => {
+    const result = parseDirectoryStructure(`- src/ # code
+  - index.ts
+  - components/  # UI`);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(formatTreeToText(result.nodes, { style: 'markdown' })).toBe(`- src/           # code
+  - index.ts
+  - components/  # UI`);
+
+    expect(formatTreeToText(result.nodes, { style: 'ascii' })).toBe(`src/             # code
+├── index.ts
+└── components/  # UI`);
+  });
+});
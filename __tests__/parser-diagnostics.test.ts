@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+
+describe('Parse Diagnostics', () => {
+  it('should return no diagnostics for clean input', () => {
+    const result = parseDirectoryStructure(`- src/
+  - index.ts`);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('should flag mixed tabs and spaces', () => {
+    const result = parseDirectoryStructure('- src/\n \t- index.ts');
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ line: 2, column: 1, severity: 'warning' });
+    expect(result.diagnostics[0].message).toContain('tabs and spaces');
+  });
+
+  it('should flag indentation that does not fit the detected unit', () => {
+    const result = parseDirectoryStructure(`- src/
+  - lib/
+     - index.ts`);
+
+    expect(result.diagnostics[0]).toMatchObject({ line: 3, column: 6, severity: 'warning' });
+    expect(result.diagnostics[0].fix).toContain('4 or 6 spaces');
+  });
+
+  it('should flag entries indented more than one level', () => {
+    const result = parseDirectoryStructure(`- src/
+      - index.ts
+  - app.ts`);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.nodes[0].children![0].depth).toBe(1);
+    expect(result.diagnostics[0]).toMatchObject({ line: 2, column: 7 });
+    expect(result.diagnostics[0].message).toContain('more than one level');
+  });
+
+  it('should flag children indented under a file', () => {
+    const result = parseDirectoryStructure(`- src/
+  - config
+    - settings.json`);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.nodes[0].children!.map(node => node.name)).toEqual(['config', 'settings.json']);
+    expect(result.diagnostics[0]).toMatchObject({ line: 3, column: 5 });
+    expect(result.diagnostics[0].message).toContain('"config"');
+    expect(result.diagnostics[0].fix).toContain('trailing /');
+  });
+
+  it('should report lines dropped by the sanitizer with their original line numbers', () => {
+    const result = parseDirectoryStructure(`- src/
+# not a file
+  - index.ts
+  ★★★`);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics.map(d => d.line)).toEqual([2, 4]);
+    expect(result.diagnostics[0].message).toContain('#');
+    expect(result.diagnostics[1].message).toContain('no file or folder name');
+  });
+
+  it('should flag misaligned tree connectors', () => {
+    const result = parseDirectoryStructure(`root/
+├── src/
+│   └── index.ts
+  └── misplaced.ts`);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ line: 4, severity: 'warning' });
+  });
+
+  it('should keep diagnostics on failed parses', () => {
+    const result = parseDirectoryStructure('# only a comment');
+
+    expect(result.success).toBe(false);
+    expect(result.diagnostics).toHaveLength(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { formatTreeToText } from '@/lib/formatter';
+import { TreeNode } from '@/lib/types';
+
+function outline(nodes: TreeNode[]): string[] {
+  return nodes.flatMap(node => [`${node.depth}:${node.name}`, ...outline(node.children ?? [])]);
+}
+
+describe('Markdown Parser', () => {
+  describe('indentation', () => {
+    it('should nest four-space indented lists one level at a time', () => {
+      const result = parseDirectoryStructure(`- src/
+    - components/
+        - Button.tsx
+    - index.ts
+- README.md`);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(outline(result.nodes)).toEqual([
+        '0:src', '1:components', '2:Button.tsx', '1:index.ts', '0:README.md',
+      ]);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should accept three-space indentation', () => {
+      const result = parseDirectoryStructure(`- docs/
+   - api/
+      - index.md`);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(outline(result.nodes)).toEqual(['0:docs', '1:api', '2:index.md']);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should nest tab-indented lists', () => {
+      const result = parseDirectoryStructure('- src/\n\t- lib/\n\t\t- util.ts\n\t- main.ts');
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(outline(result.nodes)).toEqual(['0:src', '1:lib', '2:util.ts', '1:main.ts']);
+    });
+
+    it('should normalise lines that mix tab and space indentation', () => {
+      const result = parseDirectoryStructure('- src/\n    - lib/\n\t\t- util.ts\n\t- main.ts');
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(outline(result.nodes)).toEqual(['0:src', '1:lib', '2:util.ts', '1:main.ts']);
+    });
+
+    it('should keep depth consistent with nesting for several root folders', () => {
+      const result = parseDirectoryStructure(`- a/
+  - b.txt
+- c/
+  - d/
+    - e.txt`);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(outline(result.nodes)).toEqual(['0:a', '1:b.txt', '0:c', '1:d', '2:e.txt']);
+    });
+  });
+
+  describe('list dialects', () => {
+    it('should accept *, + and numbered list markers', () => {
+      const result = parseDirectoryStructure(`* src/
+  + lib/
+    1. parser.ts
+    2) types.ts
+* README.md`);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(outline(result.nodes)).toEqual([
+        '0:src', '1:lib', '2:parser.ts', '2:types.ts', '0:README.md',
+      ]);
+    });
+
+    it('should keep task checkbox state out of the name', () => {
+      const result = parseDirectoryStructure(`- [x] src/
+  - [ ] index.ts
+  - notes.md`);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.nodes[0]).toMatchObject({ name: 'src', type: 'folder', checked: true });
+      expect(result.nodes[0].children![0]).toMatchObject({ name: 'index.ts', checked: false });
+      expect(result.nodes[0].children![1].checked).toBeUndefined();
+      expect(formatTreeToText(result.nodes, { style: 'markdown' })).toBe(`- [x] src/
+  - [ ] index.ts
+  - notes.md`);
+    });
+
+    it('should strip code, bold and link markup from names', () => {
+      const result = parseDirectoryStructure(`- **src/**
+  - \`index.ts\`
+  - [docs](./docs/)
+  - [README](./README.md)
+  - \`lib\`/
+  - __init__.py`);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const src = result.nodes[0];
+      expect(src).toMatchObject({ name: 'src', type: 'folder' });
+      expect(src.children!.map(node => `${node.type}:${node.name}`)).toEqual([
+        'file:index.ts', 'folder:docs', 'file:README', 'folder:lib', 'file:__init__.py',
+      ]);
+    });
+  });
+});
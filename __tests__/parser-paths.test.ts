@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { names } from './helpers';
+
+describe('Path List Parser', () => {
+  it('should build a nested tree from git ls-files output', () => {
+    const input = `README.md
+src/index.ts
+src/lib/parser.ts
+src/lib/types.ts
+package.json`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['README.md', 'src', 'package.json']);
+    const src = result.nodes[1];
+    expect(src.type).toBe('folder');
+    expect(names(src.children!)).toEqual(['index.ts', 'lib']);
+    expect(names(src.children![1].children!)).toEqual(['parser.ts', 'types.ts']);
+    expect(src.children![1].children![0].depth).toBe(2);
+  });
+
+  it('should normalise find output with ./ prefixes', () => {
+    const input = `.
+./src
+./src/app.ts
+./docs/guide.md`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['src', 'docs']);
+    expect(result.nodes[0].children![0].name).toBe('app.ts');
+    expect(result.nodes[1].type).toBe('folder');
+  });
+
+  it('should treat a trailing slash as an empty folder', () => {
+    const input = `src/
+src/index.ts
+assets/`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.nodes[1].name).toBe('assets');
+    expect(result.nodes[1].type).toBe('folder');
+    expect(result.nodes[1].children).toEqual([]);
+  });
+
+  it('should accept mixed backslash separators', () => {
+    const input = `src/lib/a.ts
+src\\lib\\b.ts`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.nodes).toHaveLength(1);
+    expect(names(result.nodes[0].children![0].children!)).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('should make absolute listings relative to their common directory', () => {
+    const input = `/home/dev/app/src/main.ts
+/home/dev/app/README.md`;
+
+    const result = parseDirectoryStructure(input);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(names(result.nodes)).toEqual(['src', 'README.md']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { names } from './helpers';
+
+describe('Windows Parsers', () => {
+  describe('tree /F output', () => {
+    it('should parse Unicode connectors and drop the volume header', () => {
+      const input = `Folder PATH listing for volume OS
+Volume serial number is 0000-ABCD
+C:.
+│   package.json
+│   
+├───src
+│   │   index.ts
+│   │   
+│   └───lib
+│           util.ts
+│           
+└───docs
+        readme.md`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['package.json', 'src', 'docs']);
+      expect(result.nodes[0].type).toBe('file');
+      expect(result.nodes[1].type).toBe('folder');
+      expect(names(result.nodes[1].children!)).toEqual(['index.ts', 'lib']);
+      expect(result.nodes[1].children![1].children![0].name).toBe('util.ts');
+      expect(result.nodes[1].children![1].children![0].depth).toBe(2);
+      expect(names(result.nodes[2].children!)).toEqual(['readme.md']);
+    });
+
+    it('should parse /A connectors and keep a named root folder', () => {
+      const input = `Folder PATH listing
+Volume serial number is 0000-ABCD
+C:\\WORK\\PROJECT
+|   README.md
+|   
++---src
+|       main.c
+|       
+\\---empty`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.nodes).toHaveLength(1);
+      expect(result.nodes[0].name).toBe('PROJECT');
+      expect(names(result.nodes[0].children!)).toEqual(['README.md', 'src', 'empty']);
+      expect(result.nodes[0].children![2].type).toBe('folder');
+      expect(result.nodes[0].children![1].children![0].depth).toBe(2);
+    });
+  });
+
+  describe('path listings', () => {
+    it('should rebuild the hierarchy from dir /s /b output', () => {
+      const input = `C:\\project\\src
+C:\\project\\src\\index.ts
+C:\\project\\src\\lib
+C:\\project\\src\\lib\\util.ts
+C:\\project\\README.md`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['src', 'README.md']);
+      expect(result.nodes[0].type).toBe('folder');
+      expect(names(result.nodes[0].children!)).toEqual(['index.ts', 'lib']);
+      expect(result.nodes[0].children![1].children![0].depth).toBe(2);
+      expect(result.nodes[1].type).toBe('file');
+    });
+
+    it('should parse relative Get-ChildItem -Recurse -Name output', () => {
+      const input = `docs
+src
+README.md
+docs\\guide.md
+src\\app\\main.ts`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['docs', 'src', 'README.md']);
+      expect(result.nodes[1].children![0].name).toBe('app');
+      expect(result.nodes[1].children![0].type).toBe('folder');
+    });
+  });
+});
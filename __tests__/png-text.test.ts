@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { crc32 } from 'node:zlib';
+import { readPngText, writePngText, TREE_SOURCE_KEYWORD } from '@/lib/png-text';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { formatTreeToText } from '@/lib/formatter';
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(new TextEncoder().encode(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * A 1×1 PNG: signature, IHDR, an IDAT placeholder and IEND
+ */
+function createPng(...extra: Uint8Array[]): Uint8Array {
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0])),
+    ...extra,
+    chunk('IDAT', new Uint8Array([0x78, 0x9c, 0x63, 0x00, 0x00, 0x00, 0x02, 0x00, 0x01])),
+    chunk('IEND', new Uint8Array()),
+  ]);
+}
+
+/**
+ * Lists chunk types, checking every CRC on the way
+ */
+function chunkTypes(png: Uint8Array): string[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const types: string[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(png.subarray(offset + 4, offset + 8 + length)));
+    types.push(new TextDecoder().decode(png.subarray(offset + 4, offset + 8)));
+    offset += 12 + length;
+  }
+  return types;
+}
+
+describe('PNG Text Chunks', () => {
+  it('should write an iTXt chunk before the end with a valid CRC', () => {
+    const png = writePngText(createPng(), 'Comment', 'Grüße');
+
+    expect(chunkTypes(png)).toEqual(['IHDR', 'IDAT', 'iTXt', 'IEND']);
+    expect(readPngText(png)).toEqual({ Comment: 'Grüße' });
+  });
+
+  it('should read tEXt chunks written by other tools', () => {
+    const png = createPng(chunk('tEXt', new TextEncoder().encode('Software\0GIMP 2.10')));
+
+    expect(readPngText(png)).toEqual({ Software: 'GIMP 2.10' });
+  });
+
+  it('should replace text under the same keyword', () => {
+    const png = writePngText(writePngText(createPng(), 'Comment', 'first'), 'Comment', 'second');
+
+    expect(chunkTypes(png)).toEqual(['IHDR', 'IDAT', 'iTXt', 'IEND']);
+    expect(readPngText(png).Comment).toBe('second');
+  });
+
+  it('should reject files that are not PNG images', () => {
+    expect(() => readPngText(new TextEncoder().encode('GIF89a'))).toThrow('Not a PNG image');
+  });
+
+  it('should carry a tree through an exported image', () => {
+    const result = parseDirectoryStructure('- src/\n  - index.ts  # Entry point\n- README.md');
+    if (!result.success) throw new Error(result.error);
+
+    const png = writePngText(createPng(), TREE_SOURCE_KEYWORD, formatTreeToText(result.nodes, { style: 'json' }));
+    const restored = parseDirectoryStructure(readPngText(png)[TREE_SOURCE_KEYWORD]);
+    if (!restored.success) throw new Error(restored.error);
+
+    expect(formatTreeToText(restored.nodes)).toBe(formatTreeToText(result.nodes));
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { formatTextAsHtml, formatTreeToHtmlList, formatTreeToText } from '@/lib/formatter';
+import { copyAsRichList, copyAsText } from '@/lib/export';
+import { parse } from './helpers';
+
+const TREE = `- src/
+  - <App>.tsx  # Root & layout
+- README.md`;
+
+/**
+ * Stands in for the browser's ClipboardItem, keeping the blobs it was given
+ */
+class FakeClipboardItem {
+  constructor(public items: Record<string, Blob>) {}
+}
+
+describe('Rich Copy', () => {
+  describe('HTML formatting', () => {
+    it('should wrap text trees in an escaped monospace pre block', () => {
+      const html = formatTextAsHtml('└── <App>.tsx');
+
+      expect(html).toMatch(/^<pre style="font-family: Consolas, [^"]*monospace;[^"]*white-space: pre;[^"]*">/);
+      expect(html).toContain('└── &lt;App&gt;.tsx</pre>');
+    });
+
+    it('should nest lists with folder and file icons', () => {
+      const html = formatTreeToHtmlList(parse(TREE));
+      const text = html.replace(/<[^>]+>/g, '|').replace(/\|+/g, '|');
+
+      expect(text).toBe('|📁 |src/|📄 |&lt;App&gt;.tsx| |# Root &amp; layout|📄 |README.md|');
+      expect(html.match(/<ul /g)).toHaveLength(2);
+      expect(html).toContain('padding-left: 20px');
+    });
+  });
+
+  describe('clipboard', () => {
+    const write = vi.fn(() => Promise.resolve());
+    const writeText = vi.fn(() => Promise.resolve());
+
+    beforeEach(() => {
+      write.mockClear();
+      writeText.mockClear();
+      Object.assign(navigator, { clipboard: { write, writeText } });
+      vi.stubGlobal('ClipboardItem', FakeClipboardItem);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    // jsdom's Blob has no text(), so the contents are read the older way
+    const readBlob = (blob: Blob) =>
+      new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(blob);
+      });
+
+    async function copiedItems(): Promise<Record<string, string>> {
+      const [[items]] = write.mock.calls as unknown as [[FakeClipboardItem[]]];
+      const entries = Object.entries(items[0].items);
+      return Object.fromEntries(await Promise.all(entries.map(async ([type, blob]) => [type, await readBlob(blob)])));
+    }
+
+    it('should copy text trees as both HTML and plain text', async () => {
+      const nodes = parse(TREE);
+      await copyAsText(nodes, 'ascii');
+
+      const text = formatTreeToText(nodes, { style: 'ascii' });
+      expect(await copiedItems()).toEqual({ 'text/html': formatTextAsHtml(text), 'text/plain': text });
+      expect(writeText).not.toHaveBeenCalled();
+    });
+
+    it('should copy other styles as plain text only', async () => {
+      await copyAsText(parse(TREE), 'csv');
+
+      expect(write).not.toHaveBeenCalled();
+      expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/^path,name,type/));
+    });
+
+    it('should copy a rich list with markdown as the plain text', async () => {
+      const nodes = parse(TREE);
+      await copyAsRichList(nodes);
+
+      expect(await copiedItems()).toEqual({
+        'text/html': formatTreeToHtmlList(nodes),
+        'text/plain': formatTreeToText(nodes, { style: 'markdown' }),
+      });
+    });
+
+    it('should fall back to plain text without ClipboardItem', async () => {
+      vi.stubGlobal('ClipboardItem', undefined);
+      await copyAsText(parse(TREE), 'markdown');
+
+      expect(write).not.toHaveBeenCalled();
+      expect(writeText).toHaveBeenCalledOnce();
+    });
+  });
+});
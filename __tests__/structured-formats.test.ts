@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { parseDirectoryStructure } from '@/lib/parser';
+import { formatTreeToText } from '@/lib/formatter';
+import { TreeNode } from '@/lib/types';
+import { names } from './helpers';
+
+const sampleTree: TreeNode[] = [
+  {
+    id: '1',
+    name: 'src',
+    type: 'folder',
+    depth: 0,
+    children: [
+      { id: '2', name: 'index.ts', type: 'file', depth: 1 },
+      { id: '3', name: 'assets', type: 'folder', depth: 1, children: [] },
+    ],
+  },
+  { id: '4', name: 'README.md', type: 'file', depth: 0 },
+];
+
+describe('Structured Formats', () => {
+  describe('tree -J JSON', () => {
+    it('should import tree -J output and drop the report', () => {
+      const input = `[
+  {"type":"directory","name":".","contents":[
+    {"type":"directory","name":"src","contents":[
+      {"type":"file","name":"index.ts"}
+    ]},
+    {"type":"file","name":"README.md"}
+  ]}
+,
+  {"type":"report","directories":1,"files":2}
+]`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['src', 'README.md']);
+      expect(result.nodes[0].type).toBe('folder');
+      expect(result.nodes[0].children![0].depth).toBe(1);
+    });
+
+    it('should export in the tree -J layout with a report', () => {
+      const output = JSON.parse(formatTreeToText(sampleTree, { style: 'tree-json' }));
+
+      expect(output[0]).toMatchObject({ type: 'directory', name: '.' });
+      expect(output[0].contents[0].contents[1]).toEqual({ type: 'directory', name: 'assets', contents: [] });
+      expect(output[1]).toEqual({ type: 'report', directories: 2, files: 2 });
+    });
+  });
+
+  describe('native JSON', () => {
+    it('should round-trip through the native schema', () => {
+      const output = formatTreeToText(sampleTree, { style: 'json' });
+      expect(JSON.parse(output)[0]).toEqual({
+        name: 'src',
+        type: 'folder',
+        children: [
+          { name: 'index.ts', type: 'file' },
+          { name: 'assets', type: 'folder', children: [] },
+        ],
+      });
+
+      const result = parseDirectoryStructure(output);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['src', 'README.md']);
+      expect(result.nodes[0].children![1].type).toBe('folder');
+    });
+
+    it('should report nodes without a name', () => {
+      const result = parseDirectoryStructure('[{"type":"file"}]');
+      expect(result.success).toBe(false);
+      if (result.success) return;
+
+      expect(result.error).toContain('JSON');
+    });
+  });
+
+  describe('YAML', () => {
+    it('should import a nested mapping', () => {
+      const input = `# project layout
+src:
+  index.ts:
+  assets: {}
+  "weird: name.txt":
+README.md:`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes)).toEqual(['src', 'README.md']);
+      expect(names(result.nodes[0].children!)).toEqual(['index.ts', 'assets', 'weird: name.txt']);
+      expect(result.nodes[0].children![1].type).toBe('folder');
+      expect(result.nodes[1].type).toBe('file');
+    });
+
+    it('should accept sequences as folder contents', () => {
+      const input = `docs:
+- guide.md
+- api:
+    - index.md`;
+
+      const result = parseDirectoryStructure(input);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes[0].children!)).toEqual(['guide.md', 'api']);
+      expect(result.nodes[0].children![1].children![0].name).toBe('index.md');
+    });
+
+    it('should round-trip through the YAML export', () => {
+      const output = formatTreeToText(sampleTree, { style: 'yaml' });
+      expect(output).toBe(`src:
+  index.ts:
+  assets: {}
+README.md:`);
+
+      const result = parseDirectoryStructure(output);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(names(result.nodes[0].children!)).toEqual(['index.ts', 'assets']);
+      expect(result.nodes[0].children![1].type).toBe('folder');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { generateSvg } from '@/lib/export';
+import { parse } from './helpers';
+
+const TREE = `- src/
+  - components/
+    - Button.tsx
+  - index.ts  # Entry point
+- README.md`;
+
+function texts(svg: string): string[] {
+  return Array.from(svg.matchAll(/<text[^>]*>([^<]*)<\/text>/g), match => match[1]);
+}
+
+describe('SVG Export', () => {
+  it('should draw a row with an icon and label for every node', () => {
+    const svg = generateSvg(parse(TREE));
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(texts(svg)).toEqual(['src', 'components', 'Button.tsx', 'index.ts', '# Entry point', 'README.md']);
+    expect(svg.match(/<g transform=/g)).toHaveLength(5);
+    expect(svg).toContain('height="172"');
+  });
+
+  it('should size the canvas to the longest row', () => {
+    const width = (svg: string) => Number(svg.match(/width="(\d+)"/)![1]);
+
+    expect(width(generateSvg(parse('- a-very-long-file-name-indeed.ts')))).toBeGreaterThan(
+      width(generateSvg(parse('- a.ts')))
+    );
+  });
+
+  it('should use the dark palette', () => {
+    const light = generateSvg(parse(TREE));
+    const dark = generateSvg(parse(TREE), { theme: 'dark' });
+
+    expect(light).toContain('<rect width="100%" height="100%" fill="#ffffff"/>');
+    expect(dark).toContain('<rect width="100%" height="100%" fill="#0f172a"/>');
+  });
+
+  it('should include collapsed contents unless asked for the visible rows only', () => {
+    const nodes = parse(TREE);
+    nodes[0].isExpanded = false;
+
+    expect(texts(generateSvg(nodes))).toHaveLength(6);
+    expect(texts(generateSvg(nodes, { visibleOnly: true, includeDescriptions: false }))).toEqual(['src', 'README.md']);
+  });
+
+  it('should escape names and colour change statuses', () => {
+    const svg = generateSvg(parse('A\tdocs/<draft> & "notes".md\nD\told.txt'));
+
+    expect(texts(svg)).toContain('&lt;draft&gt; &amp; &quot;notes&quot;.md');
+    expect(svg).toMatch(/fill="#b91c1c" text-decoration="line-through">old.txt</);
+  });
+});
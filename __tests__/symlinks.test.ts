@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { formatTreeToText } from '@/lib/formatter';
+import { generateScript } from '@/lib/export';
+import { parse } from './helpers';
+
+describe('Symlinks', () => {
+  describe('parsing', () => {
+    it('should read tree -l arrows as symlinks', () => {
+      const nodes = parse(`.
+├── current -> releases/v2
+├── releases
+│   └── v2
+└── latest@ -> releases/v2/`);
+
+      expect(nodes[0]).toMatchObject({ name: 'current', type: 'symlink', target: 'releases/v2' });
+      expect(nodes[0].children).toBeUndefined();
+      expect(nodes[2]).toMatchObject({ name: 'latest', type: 'symlink', target: 'releases/v2/' });
+    });
+
+    it('should read arrows in markdown lists', () => {
+      const nodes = parse(`- config/
+  - app.yml -> ../shared/app.yml  # shared settings`);
+
+      expect(nodes[0].children![0]).toMatchObject({
+        name: 'app.yml',
+        type: 'symlink',
+        target: '../shared/app.yml',
+        description: 'shared settings',
+      });
+    });
+
+    it('should read link entries from tree -J', () => {
+      const nodes = parse('[{"type":"directory","name":".","contents":[{"type":"link","name":"current","target":"releases/v2"}]}]');
+
+      expect(nodes[0]).toMatchObject({ name: 'current', type: 'symlink', target: 'releases/v2' });
+    });
+  });
+
+  describe('formatting', () => {
+    const nodes = parse('- app/\n  - current -> releases/v2');
+
+    it('should write the arrow back in text formats', () => {
+      expect(formatTreeToText(nodes, { style: 'markdown' })).toBe('- app/\n  - current -> releases/v2');
+      expect(formatTreeToText(nodes, { style: 'ascii' })).toBe('app/\n└── current -> releases/v2');
+    });
+
+    it('should round-trip through every style', () => {
+      for (const style of ['markdown', 'ascii', 'json', 'tree-json', 'yaml'] as const) {
+        const reparsed = parse(formatTreeToText(nodes, { style }));
+        expect(reparsed[0].children![0]).toMatchObject({ type: 'symlink', target: 'releases/v2' });
+      }
+    });
+  });
+
+  describe('scripts', () => {
+    const nodes = parse('- app/\n  - current -> releases/v2');
+
+    it('should create links with ln -s', () => {
+      const script = generateScript(nodes, 'bash');
+
+      expect(script).toContain('ln -sfn "releases/v2" "app/current"');
+      expect(script).not.toContain('touch "app/current"');
+    });
+
+    it('should create links with New-Item on PowerShell, resolving targets from the link folder', () => {
+      expect(generateScript(nodes, 'powershell')).toContain(
+        'New-Item -ItemType SymbolicLink -Force -Path "app\\current" -Target "app\\releases\\v2"'
+      );
+      expect(generateScript(parse('- app/\n  - config.yml -> ../shared/app.yml'), 'powershell')).toContain(
+        '-Target "shared\\app.yml"'
+      );
+    });
+
+    it('should create folder links with mklink /D on Windows', () => {
+      const script = generateScript(parse(`- app/
+  - releases/
+    - v2/
+  - current -> releases/v2
+  - run -> bin/run.sh`), 'cmd');
+
+      expect(script).toContain('mklink /D "app\\current" "releases\\v2" >nul');
+      expect(script).toContain('mklink "app\\run" "bin\\run.sh" >nul');
+    });
+  });
+});
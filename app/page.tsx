@@ -1,28 +1,32 @@
 'use client';
 
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useState, useEffect, useMemo } from 'react';
 import { InputPanel } from '@/components/InputPanel';
 import { TreeView } from '@/components/TreeView';
 import { ExportControls } from '@/components/ExportControls';
 import { useTreeState } from '@/hooks/useTreeState';
 import { TreeNode } from '@/lib/types';
-import { ArrowUp } from 'lucide-react';
+import { ArrowUp, Columns3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { ThemeToggle } from '@/components/ThemeToggle';
-import { formatTreeToText } from '@/lib/formatter';
+import { formatTreeToText, hasMetadata } from '@/lib/formatter';
+import { collectNodeIds } from '@/lib/ids';
 
 export default function Home() {
-  const { state, setTree, toggleExpand, renameNode, deleteNode, selectNode, addNode } = useTreeState();
+  const { state, setTree, appendNodes, toggleExpand, renameNode, setDescription, deleteNode, selectNode, addNode } = useTreeState();
   const treeViewRef = useRef<HTMLDivElement>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [inputText, setInputText] = useState('');
+  const [showMetadata, setShowMetadata] = useState(true);
+  const treeHasMetadata = useMemo(() => hasMetadata(state.nodes), [state.nodes]);
 
   const handleParse = (nodes: TreeNode[], text: string) => {
+    const keepsSelection = state.selectedNodeId !== null && collectNodeIds(nodes).has(state.selectedNodeId);
     setTree(nodes);
     setInputText(text);
-    // Auto-select first node for keyboard navigation
-    if (nodes.length > 0) {
+    // Auto-select first node for keyboard navigation, unless the selection survived a re-parse
+    if (nodes.length > 0 && !keepsSelection) {
       selectNode(nodes[0].id);
     }
   };
@@ -86,7 +90,7 @@ export default function Home() {
           <section className="flex flex-col space-y-3 md:space-y-4" aria-labelledby="input-heading">
             <h2 id="input-heading" className="text-base md:text-lg font-semibold text-foreground lg:hidden">Input</h2>
             <div className="flex-1 bg-card border border-border rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow duration-200">
-              <InputPanel onParse={handleParse} inputText={inputText} />
+              <InputPanel onParse={handleParse} onAppend={appendNodes} inputText={inputText} />
             </div>
           </section>
 
@@ -94,11 +98,26 @@ export default function Home() {
           <section className="flex flex-col space-y-3 md:space-y-4" aria-labelledby="visualization-heading">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 md:gap-3">
               <h2 id="visualization-heading" className="text-base md:text-lg font-semibold text-foreground">Visualization</h2>
-              <ExportControls
-                nodes={state.nodes}
-                treeViewRef={treeViewRef}
-                disabled={!state.nodes || state.nodes.length === 0}
-              />
+              <div className="flex flex-wrap items-start gap-2">
+                {treeHasMetadata && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowMetadata(!showMetadata)}
+                    className="gap-2 transition-all duration-200 hover:shadow-md hover:bg-accent/80 hover:border-primary/30"
+                    aria-pressed={showMetadata}
+                    aria-label={showMetadata ? 'Hide size, date and mode columns' : 'Show size, date and mode columns'}
+                  >
+                    <Columns3 className="w-4 h-4" aria-hidden="true" />
+                    <span className="hidden sm:inline">{showMetadata ? 'Hide' : 'Show'} Details</span>
+                  </Button>
+                )}
+                <ExportControls
+                  nodes={state.nodes}
+                  treeViewRef={treeViewRef}
+                  disabled={!state.nodes || state.nodes.length === 0}
+                />
+              </div>
             </div>
             
             <div className="flex-1 min-h-[400px] md:min-h-[500px]">
@@ -107,10 +126,12 @@ export default function Home() {
                 nodes={state.nodes}
                 onToggleExpand={toggleExpand}
                 onRename={renameNode}
+                onDescriptionChange={setDescription}
                 onDelete={deleteNode}
                 onSelect={selectNode}
                 onAddNode={addNode}
                 selectedNodeId={state.selectedNodeId}
+                showMetadata={treeHasMetadata && showMetadata}
               />
             </div>
           </section>
@@ -1,18 +1,84 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from './ui/button';
-import { Download, Copy, Loader2, Check, Terminal, ChevronDown } from 'lucide-react';
-import { TreeNode } from '@/lib/types';
-import { exportAsImage, copyAsText, isClipboardAvailable, copyAsScript, ScriptType } from '@/lib/export';
+import {
+  Download,
+  Copy,
+  Loader2,
+  Check,
+  Terminal,
+  ChevronDown,
+  Braces,
+  List,
+  Table,
+  Network,
+  Image as ImageIcon,
+  PenTool,
+  ListTree,
+} from 'lucide-react';
+import { TreeNode, FormatStyle, GlyphSetName, ConnectorGlyphs } from '@/lib/types';
+import {
+  exportAsImage,
+  exportAsSvg,
+  copyAsText,
+  copyAsRichList,
+  isClipboardAvailable,
+  copyAsScript,
+  ScriptType,
+  SvgTheme,
+  ImageExportOptions,
+} from '@/lib/export';
+import { GLYPH_SETS, formatTreeToText, hasChanges, hasMetadata } from '@/lib/formatter';
 import { Alert, AlertDescription } from './ui/alert';
+import { ImageExportDialog } from './ImageExportDialog';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
 
+/**
+ * Connector styles offered for ASCII output, with a sample of each
+ */
+const GLYPH_SET_LABELS: Record<GlyphSetName, string> = {
+  unicode: 'Unicode (├── └──)',
+  ascii: 'Plain ASCII (|-- `--)',
+  rounded: 'Rounded (├── ╰──)',
+  heavy: 'Heavy (┣━━ ┗━━)',
+  double: 'Double-line (╠══ ╚══)',
+  windows: 'Windows tree /F (+--- \\---)',
+};
+
+const INDENT_WIDTH_OPTIONS = [3, 4, 6, 8];
+
+/**
+ * Diagram styles, in the order they are offered
+ */
+const DIAGRAM_STYLES: { style: FormatStyle; label: string }[] = [
+  { style: 'mermaid', label: 'Mermaid flowchart' },
+  { style: 'mermaid-mindmap', label: 'Mermaid mindmap' },
+  { style: 'dot', label: 'Graphviz DOT' },
+  { style: 'plantuml', label: 'PlantUML WBS' },
+  { style: 'plantuml-salt', label: 'PlantUML Salt' },
+];
+
+const CUSTOM_GLYPH_FIELDS: { key: keyof ConnectorGlyphs; label: string }[] = [
+  { key: 'branch', label: 'Branch' },
+  { key: 'last', label: 'Last' },
+  { key: 'vertical', label: 'Vertical' },
+  { key: 'horizontal', label: 'Horizontal' },
+];
+
 interface ExportControlsProps {
   nodes: TreeNode[];
   treeViewRef: React.RefObject<HTMLDivElement | null>;
@@ -25,35 +91,61 @@ interface ExportControlsProps {
  */
 export function ExportControls({ nodes, treeViewRef, disabled }: ExportControlsProps) {
   const [isExportingImage, setIsExportingImage] = useState(false);
+  const [imageDialogOpen, setImageDialogOpen] = useState(false);
   const [isCopying, setIsCopying] = useState(false);
   const [isCopyingScript, setIsCopyingScript] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
   const [scriptCopySuccess, setScriptCopySuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [clipboardAvailable, setClipboardAvailable] = useState(true); // Default to true to avoid hydration mismatch
+  const [includeMetadata, setIncludeMetadata] = useState(true);
+  const treeHasMetadata = useMemo(() => hasMetadata(nodes), [nodes]);
+  const [includeStatus, setIncludeStatus] = useState(true);
+  const treeHasChanges = useMemo(() => hasChanges(nodes), [nodes]);
+  const [glyphSet, setGlyphSet] = useState<GlyphSetName | 'custom'>('unicode');
+  const [customGlyphs, setCustomGlyphs] = useState<ConnectorGlyphs>(GLYPH_SETS.unicode);
+  const [indentWidth, setIndentWidth] = useState(4);
+  const [pathSeparator, setPathSeparator] = useState<'posix' | 'windows'>('posix');
+  const [filesOnly, setFilesOnly] = useState(false);
 
   // Check clipboard availability only on client side after hydration
   useEffect(() => {
     setClipboardAvailable(isClipboardAvailable());
   }, []);
 
-  const handleExportImage = async () => {
+  const handleExportImage = async (options: ImageExportOptions) => {
     if (!treeViewRef.current || disabled) return;
 
     setIsExportingImage(true);
     setError(null);
 
     try {
-      await exportAsImage(treeViewRef.current);
+      // The native JSON keeps descriptions, metadata and statuses for re-import
+      await exportAsImage(treeViewRef.current, { ...options, source: formatTreeToText(nodes, { style: 'json' }) });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to export image';
       setError(message);
     } finally {
       setIsExportingImage(false);
+      // Close either way so an error shows beside the controls rather than behind the dialog
+      setImageDialogOpen(false);
+    }
+  };
+
+  const handleExportSvg = (theme: SvgTheme) => {
+    if (disabled || !nodes || nodes.length === 0) return;
+
+    setError(null);
+
+    try {
+      exportAsSvg(nodes, { theme });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to export SVG';
+      setError(message);
     }
   };
 
-  const handleCopyText = async () => {
+  const handleCopyText = async (style: FormatStyle | 'rich-list') => {
     if (disabled || !nodes || nodes.length === 0) return;
 
     setIsCopying(true);
@@ -61,7 +153,28 @@ export function ExportControls({ nodes, treeViewRef, disabled }: ExportControlsP
     setCopySuccess(false);
 
     try {
-      await copyAsText(nodes, 'markdown');
+      // Empty custom fields fall back to the Unicode glyph
+      const glyphs =
+        glyphSet === 'custom'
+          ? {
+              branch: customGlyphs.branch || GLYPH_SETS.unicode.branch,
+              last: customGlyphs.last || GLYPH_SETS.unicode.last,
+              vertical: customGlyphs.vertical || GLYPH_SETS.unicode.vertical,
+              horizontal: customGlyphs.horizontal || GLYPH_SETS.unicode.horizontal,
+            }
+          : glyphSet;
+      if (style === 'rich-list') {
+        await copyAsRichList(nodes, { includeMetadata, includeStatus });
+      } else {
+        await copyAsText(nodes, style, {
+          includeMetadata,
+          includeStatus,
+          glyphs,
+          indentWidth,
+          pathSeparator,
+          filesOnly,
+        });
+      }
       setCopySuccess(true);
       
       // Reset success message after 3 seconds
@@ -104,57 +217,230 @@ export function ExportControls({ nodes, treeViewRef, disabled }: ExportControlsP
   return (
     <div className="space-y-3">
       <div className="flex gap-2 flex-wrap">
-        <Button
-          onClick={handleExportImage}
-          disabled={disabled || !hasNodes || isExportingImage}
-          variant="default"
-          size="sm"
-          className="gap-2 transition-all duration-200 hover:shadow-md hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-          aria-label="Export directory structure as PNG image"
-          aria-busy={isExportingImage}
-        >
-          {isExportingImage ? (
-            <>
-              <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
-              <span className="hidden sm:inline">Exporting...</span>
-            </>
-          ) : (
-            <>
-              <Download className="w-4 h-4" aria-hidden="true" />
-              <span className="hidden sm:inline">Export as Image</span>
-              <span className="sm:hidden">Export</span>
-            </>
-          )}
-        </Button>
-
-        <Button
-          onClick={handleCopyText}
-          disabled={disabled || !hasNodes || isCopying || !clipboardAvailable}
-          variant="outline"
-          size="sm"
-          className="gap-2 transition-all duration-200 hover:shadow-md hover:scale-105 hover:bg-accent/80 hover:border-primary/30 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-          aria-label="Copy directory structure as formatted text to clipboard"
-          aria-busy={isCopying}
-        >
-          {isCopying ? (
-            <>
-              <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
-              <span className="hidden sm:inline">Copying...</span>
-            </>
-          ) : copySuccess ? (
-            <>
-              <Check className="w-4 h-4 text-green-600 dark:text-green-400" aria-hidden="true" />
-              <span className="hidden sm:inline text-green-600 dark:text-green-400">Copied!</span>
-              <span className="sm:hidden text-green-600 dark:text-green-400">Copied</span>
-            </>
-          ) : (
-            <>
-              <Copy className="w-4 h-4" aria-hidden="true" />
-              <span className="hidden sm:inline">Copy as Text</span>
-              <span className="sm:hidden">Copy</span>
-            </>
-          )}
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              disabled={disabled || !hasNodes || isExportingImage}
+              variant="default"
+              size="sm"
+              className="gap-2 transition-all duration-200 hover:shadow-md hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+              aria-label="Export directory structure as an image"
+              aria-busy={isExportingImage}
+            >
+              {isExportingImage ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+                  <span className="hidden sm:inline">Exporting...</span>
+                </>
+              ) : (
+                <>
+                  <Download className="w-4 h-4" aria-hidden="true" />
+                  <span className="hidden sm:inline">Export as Image</span>
+                  <span className="sm:hidden">Export</span>
+                  <ChevronDown className="w-3 h-3 ml-1" aria-hidden="true" />
+                </>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-48">
+            <DropdownMenuItem onClick={() => setImageDialogOpen(true)}>
+              <ImageIcon className="w-4 h-4 mr-2" />
+              PNG, JPEG or WebP…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExportSvg('light')}>
+              <PenTool className="w-4 h-4 mr-2" />
+              SVG (light)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExportSvg('dark')}>
+              <PenTool className="w-4 h-4 mr-2" />
+              SVG (dark)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              disabled={disabled || !hasNodes || isCopying || !clipboardAvailable}
+              variant="outline"
+              size="sm"
+              className="gap-2 transition-all duration-200 hover:shadow-md hover:scale-105 hover:bg-accent/80 hover:border-primary/30 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+              aria-label="Copy directory structure as formatted text to clipboard"
+              aria-busy={isCopying}
+            >
+              {isCopying ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+                  <span className="hidden sm:inline">Copying...</span>
+                </>
+              ) : copySuccess ? (
+                <>
+                  <Check className="w-4 h-4 text-green-600 dark:text-green-400" aria-hidden="true" />
+                  <span className="hidden sm:inline text-green-600 dark:text-green-400">Copied!</span>
+                  <span className="sm:hidden text-green-600 dark:text-green-400">Copied</span>
+                </>
+              ) : (
+                <>
+                  <Copy className="w-4 h-4" aria-hidden="true" />
+                  <span className="hidden sm:inline">Copy as Text</span>
+                  <span className="sm:hidden">Copy</span>
+                  <ChevronDown className="w-3 h-3 ml-1" aria-hidden="true" />
+                </>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-48">
+            <DropdownMenuItem onClick={() => handleCopyText('markdown')}>
+              <Copy className="w-4 h-4 mr-2" />
+              Markdown
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleCopyText('ascii')}>
+              <Copy className="w-4 h-4 mr-2" />
+              ASCII Tree
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleCopyText('rich-list')}>
+              <ListTree className="w-4 h-4 mr-2" />
+              Rich List (email, Word)
+            </DropdownMenuItem>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>ASCII connectors</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-56">
+                <DropdownMenuLabel>Connector style</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={glyphSet}
+                  onValueChange={(value) => setGlyphSet(value as GlyphSetName | 'custom')}
+                >
+                  {(Object.keys(GLYPH_SET_LABELS) as GlyphSetName[]).map((name) => (
+                    <DropdownMenuRadioItem key={name} value={name} onSelect={(event) => event.preventDefault()}>
+                      {GLYPH_SET_LABELS[name]}
+                    </DropdownMenuRadioItem>
+                  ))}
+                  <DropdownMenuRadioItem value="custom" onSelect={(event) => event.preventDefault()}>
+                    Custom
+                  </DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
+                {glyphSet === 'custom' && (
+                  <div className="grid grid-cols-4 gap-1 px-2 py-1.5">
+                    {CUSTOM_GLYPH_FIELDS.map(({ key, label }) => (
+                      <input
+                        key={key}
+                        value={customGlyphs[key]}
+                        maxLength={1}
+                        aria-label={`${label} glyph`}
+                        title={label}
+                        onChange={(event) => setCustomGlyphs((glyphs) => ({ ...glyphs, [key]: event.target.value }))}
+                        // Keep the menu's type-ahead from taking the keystrokes
+                        onKeyDown={(event) => event.stopPropagation()}
+                        className="w-full rounded border bg-background px-1 py-0.5 text-center font-mono text-sm"
+                      />
+                    ))}
+                  </div>
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Indent width</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={String(indentWidth)}
+                  onValueChange={(value) => setIndentWidth(Number(value))}
+                >
+                  {INDENT_WIDTH_OPTIONS.map((width) => (
+                    <DropdownMenuRadioItem key={width} value={String(width)} onSelect={(event) => event.preventDefault()}>
+                      {width} columns
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem onClick={() => handleCopyText('json')}>
+              <Braces className="w-4 h-4 mr-2" />
+              JSON
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleCopyText('tree-json')}>
+              <Braces className="w-4 h-4 mr-2" />
+              JSON (tree -J)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleCopyText('yaml')}>
+              <Braces className="w-4 h-4 mr-2" />
+              YAML
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => handleCopyText('paths')}>
+              <List className="w-4 h-4 mr-2" />
+              Path List
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleCopyText('csv')}>
+              <Table className="w-4 h-4 mr-2" />
+              CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleCopyText('tsv')}>
+              <Table className="w-4 h-4 mr-2" />
+              TSV
+            </DropdownMenuItem>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Path options</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-48">
+                <DropdownMenuLabel>Separator</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={pathSeparator}
+                  onValueChange={(value) => setPathSeparator(value as 'posix' | 'windows')}
+                >
+                  <DropdownMenuRadioItem value="posix" onSelect={(event) => event.preventDefault()}>
+                    POSIX (src/index.ts)
+                  </DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem value="windows" onSelect={(event) => event.preventDefault()}>
+                    Windows (src\index.ts)
+                  </DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={filesOnly}
+                  onCheckedChange={(checked) => setFilesOnly(checked === true)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  Files only
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSeparator />
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Network className="w-4 h-4 mr-2" />
+                Diagram
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-48">
+                {DIAGRAM_STYLES.map(({ style, label }) => (
+                  <DropdownMenuItem key={style} onClick={() => handleCopyText(style)}>
+                    <Network className="w-4 h-4 mr-2" />
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            {treeHasMetadata && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={includeMetadata}
+                  onCheckedChange={(checked) => setIncludeMetadata(checked === true)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  Include size, date and mode
+                </DropdownMenuCheckboxItem>
+              </>
+            )}
+            {treeHasChanges && (
+              <>
+                {!treeHasMetadata && <DropdownMenuSeparator />}
+                <DropdownMenuCheckboxItem
+                  checked={includeStatus}
+                  onCheckedChange={(checked) => setIncludeStatus(checked === true)}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  Include change markers (+ ~ - &gt;)
+                </DropdownMenuCheckboxItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
 
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -207,6 +493,13 @@ export function ExportControls({ nodes, treeViewRef, disabled }: ExportControlsP
         </DropdownMenu>
       </div>
 
+      <ImageExportDialog
+        open={imageDialogOpen}
+        onOpenChange={setImageDialogOpen}
+        onExport={handleExportImage}
+        isExporting={isExportingImage}
+      />
+
       {error && (
         <Alert variant="destructive" role="alert" aria-live="assertive" className="animate-in slide-in-from-top-2 duration-200">
           <AlertDescription className="text-sm">{error}</AlertDescription>
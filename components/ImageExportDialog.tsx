@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Download, Loader2, X } from 'lucide-react';
+import { ImageExportOptions, ImageFormat } from '@/lib/export';
+import { cn } from '@/lib/utils';
+
+interface ImageExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (options: ImageExportOptions) => Promise<void>;
+  isExporting?: boolean;
+}
+
+const FORMAT_OPTIONS: { value: ImageFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+];
+
+const BACKGROUND_OPTIONS: { value: NonNullable<ImageExportOptions['background']>; label: string }[] = [
+  { value: 'theme', label: 'Theme' },
+  { value: 'transparent', label: 'Transparent' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const SCALE_OPTIONS = [1, 2, 3, 4];
+
+const fieldClassName = cn(
+  'w-full text-sm px-2.5 py-1.5 rounded-md border border-input bg-background',
+  'focus:outline-none focus:ring-2 focus:ring-ring/50',
+);
+
+/**
+ * ImageExportDialog component collects the format, background, scale, padding,
+ * title and caption for an image export
+ */
+export function ImageExportDialog({ open, onOpenChange, onExport, isExporting }: ImageExportDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [background, setBackground] = useState<NonNullable<ImageExportOptions['background']>>('theme');
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
+  const [scale, setScale] = useState(2);
+  const [padding, setPadding] = useState(24);
+  const [title, setTitle] = useState('');
+  const [caption, setCaption] = useState('');
+
+  // The native dialog traps focus and closes on Escape while open
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+
+    if (open && !dialog.open) {
+      dialog.showModal();
+    } else if (!open && dialog.open) {
+      dialog.close();
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await onExport({
+      format,
+      background,
+      backgroundColor,
+      scale,
+      padding,
+      title: title.trim() || undefined,
+      caption: caption.trim() || undefined,
+    });
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={() => onOpenChange(false)}
+      className="m-auto w-full max-w-md rounded-xl border border-border bg-card p-0 text-card-foreground shadow-lg backdrop:bg-black/50"
+      aria-labelledby="image-export-heading"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4 p-5">
+        <div className="flex items-center justify-between">
+          <h2 id="image-export-heading" className="text-base font-semibold">
+            Export as Image
+          </h2>
+          <Button type="button" variant="ghost" size="icon" onClick={() => onOpenChange(false)} aria-label="Close">
+            <X className="w-4 h-4" aria-hidden="true" />
+          </Button>
+        </div>
+
+        <fieldset className="space-y-1.5">
+          <legend className="text-sm font-medium">Format</legend>
+          <div className="flex gap-4">
+            {FORMAT_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-1.5 text-sm">
+                <input
+                  type="radio"
+                  name="image-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className="space-y-1.5">
+          <legend className="text-sm font-medium">Background</legend>
+          <div className="flex items-center gap-4">
+            {BACKGROUND_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-1.5 text-sm">
+                <input
+                  type="radio"
+                  name="image-background"
+                  value={option.value}
+                  checked={background === option.value}
+                  onChange={() => setBackground(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+            {background === 'custom' && (
+              <input
+                type="color"
+                value={backgroundColor}
+                onChange={(e) => setBackgroundColor(e.target.value)}
+                className="h-7 w-10 cursor-pointer rounded border border-input bg-background"
+                aria-label="Background colour"
+              />
+            )}
+          </div>
+          {background === 'transparent' && format === 'jpeg' && (
+            <p className="text-xs text-muted-foreground">JPEG has no transparency, so the theme background is used.</p>
+          )}
+        </fieldset>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="space-y-1.5 text-sm font-medium">
+            <span className="block">Scale</span>
+            <select value={scale} onChange={(e) => setScale(Number(e.target.value))} className={fieldClassName}>
+              {SCALE_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value}×
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1.5 text-sm font-medium">
+            <span className="block">Padding (px)</span>
+            <input
+              type="number"
+              min={0}
+              max={200}
+              value={padding}
+              onChange={(e) => setPadding(Math.min(200, Math.max(0, Number(e.target.value) || 0)))}
+              className={fieldClassName}
+            />
+          </label>
+        </div>
+
+        <label className="block space-y-1.5 text-sm font-medium">
+          <span className="block">Title</span>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Optional"
+            className={fieldClassName}
+          />
+        </label>
+        <label className="block space-y-1.5 text-sm font-medium">
+          <span className="block">Caption</span>
+          <input
+            type="text"
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            placeholder="Optional"
+            className={fieldClassName}
+          />
+        </label>
+
+        <div className="flex justify-end gap-2 pt-1">
+          <Button type="button" variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={isExporting} aria-busy={isExporting} className="gap-2">
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+            ) : (
+              <Download className="w-4 h-4" aria-hidden="true" />
+            )}
+            Export
+          </Button>
+        </div>
+      </form>
+    </dialog>
+  );
+}
@@ -4,12 +4,49 @@ import { useState, useRef, useEffect } from 'react';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { parseDirectoryStructure } from '@/lib/parser';
-import { TreeNode } from '@/lib/types';
-import { AlertCircle, FileText } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ParseDiagnostics } from '@/components/ParseDiagnostics';
+import { useParseWorker } from '@/hooks/useParseWorker';
+import { useFormatDetection } from '@/hooks/useFormatDetection';
+import { INPUT_FORMAT_LABELS, parseDirectoryStructure } from '@/lib/parser';
+import { formatTreeToText } from '@/lib/formatter';
+import { importArchive, isArchiveFile } from '@/lib/archive';
+import { isPngFile, readPngText, TREE_SOURCE_KEYWORD } from '@/lib/png-text';
+import {
+  DEFAULT_FOLDER_IMPORT_OPTIONS,
+  DirectoryHandle,
+  importDataTransfer,
+  importDirectoryHandle,
+  importFileList,
+} from '@/lib/folder-import';
+import {
+  TreeNode,
+  TreeChunk,
+  ParseDiagnostic,
+  InputFormat,
+  ParseProgress,
+  ExtractedTree,
+  ParseDetails,
+  FolderImportOptions,
+  FolderImportResult,
+} from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { AlertCircle, ChevronDown, FileArchive, FileText, FolderOpen, ListTree, X } from 'lucide-react';
 
 interface InputPanelProps {
   onParse: (nodes: TreeNode[], text: string) => void;
+  /** Receives the remaining nodes of a large input parsed in the background */
+  onAppend: (chunk: TreeChunk) => void;
   inputText?: string;
 }
 
@@ -31,11 +68,62 @@ const EXAMPLE_ASCII = `src/
 package.json
 README.md`;
 
-export function InputPanel({ onParse, inputText = '' }: InputPanelProps) {
+const FORMAT_OPTIONS = (Object.entries(INPUT_FORMAT_LABELS) as [InputFormat, string][]).filter(
+  ([format]) => format !== 'unknown'
+);
+
+const MAX_DEPTH_OPTIONS = [null, 1, 2, 3, 5];
+
+const MAX_ENTRY_OPTIONS = [1000, 10000, 50000, null];
+
+/**
+ * Formats a 0-1 confidence as a whole percentage
+ */
+function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Summarises a folder import for the status line
+ */
+function describeImport(result: FolderImportResult): string {
+  const parts = [`Imported ${result.entryCount.toLocaleString()} files and folders`];
+  if (result.skippedCount > 0) {
+    parts.push(`skipped ${result.skippedCount.toLocaleString()}`);
+  }
+  if (result.truncated) {
+    parts.push('stopped at the depth or entry limit');
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Describes a background parse for the progress indicator
+ */
+function describeProgress(progress: ParseProgress): string {
+  if (progress.phase === 'parsing') {
+    return `Parsing ${progress.total.toLocaleString()} lines…`;
+  }
+  const percent = progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0;
+  return `Loading ${progress.loaded.toLocaleString()} of ${progress.total.toLocaleString()} items (${percent}%)`;
+}
+
+export function InputPanel({ onParse, onAppend, inputText = '' }: InputPanelProps) {
   const [input, setInput] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
   const [showExamples, setShowExamples] = useState(true);
+  const [formatOverride, setFormatOverride] = useState<InputFormat | 'auto'>('auto');
+  const [trees, setTrees] = useState<ExtractedTree[]>([]);
+  const [treeIndex, setTreeIndex] = useState(0);
+  const [importOptions, setImportOptions] = useState<FolderImportOptions>(DEFAULT_FOLDER_IMPORT_OPTIONS);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const { parse, cancel, progress, isParsing } = useParseWorker();
 
   // Sync input with external inputText prop
   useEffect(() => {
@@ -45,21 +133,186 @@ export function InputPanel({ onParse, inputText = '' }: InputPanelProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [inputText]);
 
-  const handleParse = () => {
+  // Score the input once typing pauses so the detected format is visible before parsing
+  const detection = useFormatDetection(input);
+
+  // Show the trees found in a pasted document so another can be picked
+  const showDetails = (details: ParseDetails) => {
+    setDiagnostics(details.diagnostics);
+    setTrees(details.trees ?? []);
+    setTreeIndex(details.treeIndex ?? 0);
+  };
+
+  const handleParse = (index = treeIndex) => {
     setError(null);
     
-    const result = parseDirectoryStructure(input);
+    setDiagnostics([]);
     
-    if (result.success) {
-      onParse(result.nodes, input);
+    parse(input, formatOverride === 'auto' ? undefined : formatOverride, {
+      onStart: showDetails,
+      onChunk: (chunk, isFirst) => {
+        if (isFirst) {
+          onParse(chunk.nodes, input);
+          setShowExamples(false);
+        } else {
+          onAppend(chunk);
+        }
+      },
+      onError: (message, details) => {
+        setError(message);
+        showDetails(details);
+      },
+    }, index);
+  };
+
+  // Show an imported folder or archive as a tree, with its text in the input for editing
+  const runImport = async (source: 'folder' | 'archive', load: () => Promise<FolderImportResult>) => {
+    setError(null);
+    setDiagnostics([]);
+    setImportStatus(null);
+    setIsImporting(true);
+
+    try {
+      const result = await load();
+      if (result.nodes.length === 0) {
+        setError(`The ${source} is empty or everything in it was skipped.`);
+        return;
+      }
+
+      const text = formatTreeToText(result.nodes, { style: 'ascii' });
+      setInput(text);
+      setTrees([]);
+      setTreeIndex(0);
+      onParse(result.nodes, text);
+      setShowExamples(false);
+      setImportStatus(describeImport(result));
+    } catch (err) {
+      setError(`Failed to import ${source}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Restore a tree from the source stored in a PNG exported by this app
+  const importImage = async (file: File) => {
+    setError(null);
+    setDiagnostics([]);
+    setImportStatus(null);
+
+    try {
+      const source = readPngText(new Uint8Array(await file.arrayBuffer()))[TREE_SOURCE_KEYWORD];
+      if (!source) {
+        setError('This image has no directory structure stored in it. Only PNG images exported from here can be imported.');
+        return;
+      }
+
+      const result = parseDirectoryStructure(source);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setInput(source);
+      setTrees([]);
+      setTreeIndex(0);
+      onParse(result.nodes, source);
       setShowExamples(false);
-    } else {
-      setError(result.error);
+      setImportStatus(`Restored the structure stored in ${file.name}`);
+    } catch (err) {
+      setError(`Failed to import image: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleOpenFolder = async () => {
+    const picker = window as Window & { showDirectoryPicker?: () => Promise<DirectoryHandle> };
+
+    if (!picker.showDirectoryPicker) {
+      folderInputRef.current?.click();
+      return;
+    }
+
+    let handle: DirectoryHandle;
+    try {
+      handle = await picker.showDirectoryPicker();
+    } catch {
+      // The picker was dismissed
+      return;
+    }
+    runImport('folder', () => importDirectoryHandle(handle, importOptions));
+  };
+
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      runImport('folder', () => importFileList(files, importOptions));
+    }
+    e.target.value = '';
+  };
+
+  const handleArchiveInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      runImport('archive', () => importArchive(file));
+    }
+    e.target.value = '';
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (isFileDrag(e)) {
+      e.preventDefault();
+      setIsDragging(true);
+    }
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setIsDragging(false);
+    if (!isFileDrag(e)) {
+      return;
+    }
+    e.preventDefault();
+
+    // A single archive file is listed rather than shown as one file
+    const [file] = Array.from(e.dataTransfer.files);
+    const entry = e.dataTransfer.items[0]?.webkitGetAsEntry();
+    if (e.dataTransfer.files.length === 1 && entry?.isFile && isArchiveFile(file)) {
+      runImport('archive', () => importArchive(file));
+      return;
     }
+    // A single exported PNG restores the tree stored in it
+    if (e.dataTransfer.files.length === 1 && entry?.isFile && isPngFile(file)) {
+      importImage(file);
+      return;
+    }
+
+    // The dropped entries must be read before this handler returns
+    const load = importDataTransfer(e.dataTransfer.items, importOptions);
+    runImport('folder', () => load);
+  };
+
+  const setImportOption = <K extends keyof FolderImportOptions>(key: K, value: FolderImportOptions[K]) => {
+    setImportOptions((options) => ({ ...options, [key]: value }));
+  };
+
+  const handleCancel = () => {
+    // Drop a partially loaded tree rather than leave it looking complete
+    if (progress?.phase === 'loading') {
+      onParse([], input);
+    }
+    cancel();
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInput(e.target.value);
+    setImportStatus(null);
+    setTrees([]);
+    setTreeIndex(0);
     if (error) {
       setError(null);
     }
@@ -87,36 +340,187 @@ export function InputPanel({ onParse, inputText = '' }: InputPanelProps) {
   const loadExample = (example: string) => {
     setInput(example);
     setError(null);
+    setDiagnostics([]);
+    setFormatOverride('auto');
+    setImportStatus(null);
+    setTrees([]);
+    setTreeIndex(0);
+  };
+
+  // Move the caret to the position a diagnostic refers to
+  const selectLine = (line: number, column: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const lines = input.split('\n');
+    const lineStart = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    const lineEnd = lineStart + (lines[line - 1]?.length ?? 0);
+
+    textarea.focus();
+    textarea.setSelectionRange(Math.min(lineStart + column - 1, lineEnd), lineEnd);
   };
 
   return (
-    <div className="flex flex-col h-full gap-4 p-5 md:p-6">
+    <div
+      className={cn(
+        'relative flex flex-col h-full gap-4 p-5 md:p-6 rounded-lg transition-colors duration-200',
+        isDragging && 'ring-2 ring-primary/60 bg-primary/5',
+      )}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+          <p className="px-4 py-2 rounded-lg bg-background/90 border border-primary/40 text-sm font-medium shadow-sm">
+            Drop a folder, archive or exported PNG to import its structure
+          </p>
+        </div>
+      )}
+
       <div className="flex-1 flex flex-col gap-3">
         <div className="flex items-center justify-between">
           <label htmlFor="directory-input" className="text-sm font-semibold text-foreground">
             Directory Structure Input
           </label>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleOpenFolder}
+              disabled={isImporting || isParsing}
+              className="text-xs hover:bg-accent/80 transition-colors duration-200"
+              aria-label="Import a local folder"
+            >
+              <FolderOpen className="w-4 h-4" />
+              {isImporting ? 'Importing…' : 'Open Folder'}
+            </Button>
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              hidden
+              onChange={handleFolderInput}
+              {...{ webkitdirectory: '' }}
+            />
+            <input
+              ref={archiveInputRef}
+              type="file"
+              accept=".zip,.jar,.war,.tar,.tgz,.gz"
+              hidden
+              onChange={handleArchiveInput}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-1.5 hover:bg-accent/80 transition-colors duration-200"
+                  aria-label="Import options"
+                >
+                  <ChevronDown className="w-3 h-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuItem onClick={() => archiveInputRef.current?.click()} disabled={isImporting || isParsing}>
+                  <FileArchive className="w-4 h-4 mr-2" />
+                  Open archive (zip, tar, tar.gz)…
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Skip</DropdownMenuLabel>
+                <DropdownMenuCheckboxItem
+                  checked={importOptions.skipNodeModules}
+                  onCheckedChange={(checked) => setImportOption('skipNodeModules', checked === true)}
+                >
+                  node_modules
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem
+                  checked={importOptions.skipGit}
+                  onCheckedChange={(checked) => setImportOption('skipGit', checked === true)}
+                >
+                  .git
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem
+                  checked={importOptions.skipDotfiles}
+                  onCheckedChange={(checked) => setImportOption('skipDotfiles', checked === true)}
+                >
+                  Dotfiles
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Maximum depth</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={String(importOptions.maxDepth)}
+                  onValueChange={(value) => setImportOption('maxDepth', value === 'null' ? null : Number(value))}
+                >
+                  {MAX_DEPTH_OPTIONS.map((depth) => (
+                    <DropdownMenuRadioItem key={String(depth)} value={String(depth)}>
+                      {depth === null ? 'Unlimited' : `${depth} ${depth === 1 ? 'level' : 'levels'}`}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Maximum entries</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={String(importOptions.maxEntries)}
+                  onValueChange={(value) => setImportOption('maxEntries', value === 'null' ? null : Number(value))}
+                >
+                  {MAX_ENTRY_OPTIONS.map((count) => (
+                    <DropdownMenuRadioItem key={String(count)} value={String(count)}>
+                      {count === null ? 'Unlimited' : count.toLocaleString()}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowExamples(!showExamples)}
+              className="text-xs hover:bg-accent/80 transition-colors duration-200"
+              aria-label={showExamples ? 'Hide example formats' : 'Show example formats'}
+              aria-expanded={showExamples}
+            >
+              <FileText className="w-4 h-4" />
+              {showExamples ? 'Hide' : 'Show'} Examples
+            </Button>
+          </div>
+        </div>
+
+        {isParsing && progress ? (
+          <div className="flex items-center gap-2" role="status" aria-live="polite">
+            <div className="flex-1 space-y-1.5">
+              <p className="text-xs text-muted-foreground">{describeProgress(progress)}</p>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={cn(
+                    'h-full bg-primary transition-all duration-200',
+                    progress.phase === 'parsing' && 'w-1/3 animate-pulse',
+                  )}
+                  style={progress.phase === 'loading' ? { width: `${(progress.loaded / Math.max(progress.total, 1)) * 100}%` } : undefined}
+                />
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCancel}
+              className="text-xs hover:bg-accent/80 transition-colors duration-200"
+              aria-label="Cancel parsing"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+          </div>
+        ) : (
           <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setShowExamples(!showExamples)}
-            className="text-xs hover:bg-accent/80 transition-colors duration-200"
-            aria-label={showExamples ? 'Hide example formats' : 'Show example formats'}
-            aria-expanded={showExamples}
+            onClick={() => handleParse()}
+            disabled={!input.trim()}
+            className="w-full transition-all duration-200 hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Parse directory structure"
           >
-            <FileText className="w-4 h-4" />
-            {showExamples ? 'Hide' : 'Show'} Examples
+            Parse Structure
           </Button>
-        </div>
-
-        <Button
-          onClick={handleParse}
-          disabled={!input.trim()}
-          className="w-full transition-all duration-200 hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
-          aria-label="Parse directory structure"
-        >
-          Parse Structure
-        </Button>
+        )}
 
         <Textarea
           ref={textareaRef}
@@ -130,6 +534,90 @@ export function InputPanel({ onParse, inputText = '' }: InputPanelProps) {
           aria-invalid={!!error}
         />
 
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-xs hover:bg-accent/80 transition-colors duration-200"
+                aria-label="Choose input format"
+              >
+                Format: {formatOverride === 'auto' ? 'Auto-detect' : INPUT_FORMAT_LABELS[formatOverride]}
+                <ChevronDown className="w-3 h-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-48">
+              <DropdownMenuLabel>Input format</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={formatOverride}
+                onValueChange={(value) => setFormatOverride(value as InputFormat | 'auto')}
+              >
+                <DropdownMenuRadioItem value="auto">Auto-detect</DropdownMenuRadioItem>
+                <DropdownMenuSeparator />
+                {FORMAT_OPTIONS.map(([format, label]) => (
+                  <DropdownMenuRadioItem key={format} value={format}>
+                    {label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {formatOverride === 'auto' && detection && (
+            <span role="status" aria-live="polite">
+              {detection.format === 'unknown'
+                ? INPUT_FORMAT_LABELS.unknown
+                : `Detected: ${INPUT_FORMAT_LABELS[detection.format]} (${formatConfidence(detection.confidence)})`}
+            </span>
+          )}
+
+          {formatOverride === 'auto' &&
+            detection?.alternatives.map(({ format, confidence }) => (
+              <Button
+                key={format}
+                variant="ghost"
+                size="sm"
+                onClick={() => setFormatOverride(format)}
+                className="h-auto px-1.5 py-0.5 text-xs hover:bg-accent/80 transition-colors duration-200"
+                aria-label={`Parse as ${INPUT_FORMAT_LABELS[format]} instead`}
+              >
+                or {INPUT_FORMAT_LABELS[format]} ({formatConfidence(confidence)})?
+              </Button>
+            ))}
+        </div>
+
+        {importStatus && (
+          <p className="text-xs text-muted-foreground" role="status" aria-live="polite">
+            {importStatus}
+          </p>
+        )}
+
+        {trees.length > 1 && (
+          <div className="space-y-1.5" role="group" aria-label="Trees found in this document">
+            <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <ListTree className="w-3.5 h-3.5" />
+              Found {trees.length} trees in this document
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {trees.map((tree, index) => (
+                <Button
+                  key={`${tree.startLine}-${tree.endLine}`}
+                  variant={index === treeIndex ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => handleParse(index)}
+                  disabled={isParsing}
+                  className="h-auto px-2 py-1 text-xs hover:bg-accent/80 transition-colors duration-200"
+                  aria-pressed={index === treeIndex}
+                  aria-label={`Parse ${tree.label}, lines ${tree.startLine} to ${tree.endLine}`}
+                >
+                  {tree.label} (lines {tree.startLine}–{tree.endLine})
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {error && (
           <Alert variant="destructive" className="animate-in slide-in-from-top-2 duration-200">
             <AlertCircle className="w-4 h-4" />
@@ -137,6 +625,8 @@ export function InputPanel({ onParse, inputText = '' }: InputPanelProps) {
             <AlertDescription>{error}</AlertDescription>
           </Alert>
         )}
+
+        <ParseDiagnostics diagnostics={diagnostics} onSelectLine={selectLine} />
       </div>
 
       {showExamples && (
@@ -187,7 +677,7 @@ export function InputPanel({ onParse, inputText = '' }: InputPanelProps) {
               </p>
               <p className="flex items-start gap-2">
                 <span className="text-primary">•</span>
-                <span>Use consistent indentation (2 or 4 spaces)</span>
+                <span>Indent consistently with tabs or 2, 3 or 4 spaces</span>
               </p>
               <p className="flex items-start gap-2">
                 <span className="text-primary">•</span>
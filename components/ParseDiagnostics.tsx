@@ -0,0 +1,70 @@
+'use client';
+
+import { ParseDiagnostic } from '@/lib/types';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ParseDiagnosticsProps {
+  diagnostics: ParseDiagnostic[];
+  onSelectLine?: (line: number, column: number) => void;
+}
+
+/**
+ * ParseDiagnostics component lists the warnings and errors found while parsing,
+ * each linked to its position in the input
+ */
+export function ParseDiagnostics({ diagnostics, onSelectLine }: ParseDiagnosticsProps) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const summary = [
+    errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`,
+    warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <Alert
+      role="status"
+      aria-live="polite"
+      className="border-yellow-200 bg-yellow-50/50 dark:border-yellow-900 dark:bg-yellow-950/30 animate-in slide-in-from-top-2 duration-200"
+    >
+      <AlertTriangle className="w-4 h-4 text-yellow-700 dark:text-yellow-400" />
+      <AlertTitle className="text-yellow-900 dark:text-yellow-100">Parse diagnostics ({summary})</AlertTitle>
+      <AlertDescription>
+        <ul className="w-full space-y-1.5 max-h-48 overflow-y-auto text-xs">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={`${diagnostic.line}-${diagnostic.column}-${index}`} className="flex items-start gap-2">
+              <button
+                type="button"
+                onClick={() => onSelectLine?.(diagnostic.line, diagnostic.column)}
+                className={cn(
+                  'shrink-0 font-mono px-1.5 rounded cursor-pointer',
+                  'focus:outline-none focus:ring-2 focus:ring-ring/50',
+                  'transition-colors duration-200',
+                  diagnostic.severity === 'error'
+                    ? 'bg-destructive/10 text-destructive hover:bg-destructive/20'
+                    : 'bg-yellow-100 text-yellow-900 hover:bg-yellow-200 dark:bg-yellow-900/40 dark:text-yellow-100 dark:hover:bg-yellow-900/60',
+                )}
+                aria-label={`Go to line ${diagnostic.line}, column ${diagnostic.column}`}
+              >
+                {diagnostic.line}:{diagnostic.column}
+              </button>
+              <span className="text-yellow-900 dark:text-yellow-100">
+                {diagnostic.message}
+                {diagnostic.fix && (
+                  <span className="block text-muted-foreground">{diagnostic.fix}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,40 +1,65 @@
 'use client';
 
-import { TreeNode as TreeNodeType } from '@/lib/types';
-import { ChevronRight, ChevronDown, Folder, File, Pencil, Trash2, X, Check, FolderPlus, FilePlus } from 'lucide-react';
+import { ChangeStatus, NodeSizes, TreeNode as TreeNodeType } from '@/lib/types';
+import { ChevronRight, ChevronDown, Folder, File, FileSymlink, Pencil, Trash2, X, Check, FolderPlus, FilePlus, Square, SquareCheck, MessageSquare } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatSize } from '@/lib/formatter';
 import { useState, useRef, useEffect } from 'react';
 
+/**
+ * Colours and badges for git change statuses
+ */
+const STATUS_STYLES: Record<ChangeStatus, { letter: string; label: string; className: string }> = {
+  added: { letter: 'A', label: 'Added', className: 'text-green-700 dark:text-green-400' },
+  modified: { letter: 'M', label: 'Modified', className: 'text-amber-700 dark:text-amber-400' },
+  deleted: { letter: 'D', label: 'Deleted', className: 'text-red-700 dark:text-red-400' },
+  renamed: { letter: 'R', label: 'Renamed', className: 'text-blue-700 dark:text-blue-400' },
+};
+
 interface TreeNodeProps {
   node: TreeNodeType;
   onToggleExpand: (id: string) => void;
   onRename?: (id: string, name: string) => void;
+  onDescriptionChange?: (id: string, description: string) => void;
   onDelete?: (id: string) => void;
   onSelect?: (id: string) => void;
   onAddNode?: (parentId: string, nodeType: 'file' | 'folder') => void;
   selectedNodeId?: string | null;
+  /** Whether to show size, date and mode columns */
+  showMetadata?: boolean;
+  /** Sizes of the whole tree, computed once at its root */
+  sizes?: NodeSizes;
 }
 
 export function TreeNode({
   node,
   onToggleExpand,
   onRename,
+  onDescriptionChange,
   onDelete,
   onSelect,
   onAddNode,
   selectedNodeId,
+  showMetadata = false,
+  sizes,
 }: TreeNodeProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(node.name);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isEditingDescription, setIsEditingDescription] = useState(false);
+  const [descriptionValue, setDescriptionValue] = useState(node.description ?? '');
   const inputRef = useRef<HTMLInputElement>(null);
+  const descriptionInputRef = useRef<HTMLInputElement>(null);
   const nodeRef = useRef<HTMLDivElement>(null);
 
   const isFolder = node.type === 'folder';
+  const isSymlink = node.type === 'symlink';
   const isExpanded = node.isExpanded ?? false;
   const hasChildren = node.children && node.children.length > 0;
   const isSelected = selectedNodeId === node.id;
+  const size = showMetadata ? sizes?.get(node) : undefined;
+  const statusStyle = node.status ? STATUS_STYLES[node.status] : undefined;
 
   // Focus and select text when entering edit mode
   useEffect(() => {
@@ -44,12 +69,20 @@ export function TreeNode({
     }
   }, [isEditing]);
 
+  // Focus the description input when entering description edit mode
+  useEffect(() => {
+    if (isEditingDescription && descriptionInputRef.current) {
+      descriptionInputRef.current.focus();
+      descriptionInputRef.current.select();
+    }
+  }, [isEditingDescription]);
+
   // Focus management: return focus to node after editing
   useEffect(() => {
-    if (!isEditing && isSelected && nodeRef.current) {
+    if (!isEditing && !isEditingDescription && isSelected && nodeRef.current) {
       nodeRef.current.focus();
     }
-  }, [isEditing, isSelected]);
+  }, [isEditing, isEditingDescription, isSelected]);
 
   const handleClick = () => {
     if (isFolder) {
@@ -60,7 +93,7 @@ export function TreeNode({
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
     // Prevent keyboard handling when editing
-    if (isEditing) return;
+    if (isEditing || isEditingDescription) return;
 
     switch (e.key) {
       case 'Enter':
@@ -109,6 +142,34 @@ export function TreeNode({
     setValidationError(null);
   };
 
+  const handleEditDescription = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditingDescription(true);
+    setDescriptionValue(node.description ?? '');
+  };
+
+  const handleDescriptionComplete = () => {
+    const trimmedValue = descriptionValue.trim();
+
+    // An empty description removes the comment
+    if (trimmedValue !== (node.description ?? '') && onDescriptionChange) {
+      onDescriptionChange(node.id, trimmedValue);
+    }
+
+    setIsEditingDescription(false);
+  };
+
+  const handleDescriptionKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleDescriptionComplete();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDescriptionValue(node.description ?? '');
+      setIsEditingDescription(false);
+    }
+  };
+
   const handleDeleteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     setShowDeleteConfirm(true);
@@ -204,7 +265,7 @@ export function TreeNode({
         role="treeitem"
         aria-expanded={isFolder ? isExpanded : undefined}
         aria-selected={isSelected}
-        aria-label={`${isFolder ? 'Folder' : 'File'}: ${node.name}${isFolder && hasChildren ? `, ${isExpanded ? 'expanded' : 'collapsed'}` : ''}`}
+        aria-label={`${isFolder ? 'Folder' : isSymlink ? 'Symlink' : 'File'}: ${node.name}${isSymlink && node.target ? ` to ${node.target}` : ''}${statusStyle ? `, ${statusStyle.label.toLowerCase()}` : ''}${isFolder && hasChildren ? `, ${isExpanded ? 'expanded' : 'collapsed'}` : ''}`}
         tabIndex={isSelected ? 0 : -1}
       >
         {/* Expand/collapse chevron for folders */}
@@ -236,11 +297,28 @@ export function TreeNode({
                 'group-hover:scale-110',
               )}
             />
+          ) : isSymlink ? (
+            <FileSymlink className="w-4 h-4 text-cyan-600 dark:text-cyan-400 group-hover:text-cyan-700 dark:group-hover:text-cyan-300 transition-colors duration-200" />
           ) : (
             <File className="w-4 h-4 text-gray-500 dark:text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-300 transition-colors duration-200" />
           )}
         </div>
 
+        {/* Task checkbox state from markdown task lists */}
+        {node.checked !== undefined && (
+          <div
+            className="flex items-center justify-center w-4 h-4"
+            role="img"
+            aria-label={node.checked ? 'Checked' : 'Unchecked'}
+          >
+            {node.checked ? (
+              <SquareCheck className="w-4 h-4 text-green-600 dark:text-green-400" />
+            ) : (
+              <Square className="w-4 h-4 text-muted-foreground" />
+            )}
+          </div>
+        )}
+
         {/* Node name or edit input */}
         {isEditing ? (
           <input
@@ -305,11 +383,79 @@ export function TreeNode({
                 'group-hover:text-foreground',
                 isFolder && 'font-semibold text-foreground',
                 !isFolder && 'text-muted-foreground',
+                statusStyle?.className,
+                node.status === 'deleted' && 'line-through',
               )}
               onDoubleClick={handleDoubleClick}
             >
               {node.name}
             </span>
+
+            {/* Change status from git, with the old path of a moved entry */}
+            {node.renamedFrom && (
+              <span className="text-xs font-mono text-muted-foreground truncate max-w-xs" title={node.renamedFrom}>
+                from {node.renamedFrom}
+              </span>
+            )}
+            {statusStyle && (
+              <span
+                className={cn('w-4 text-center text-xs font-mono font-semibold', statusStyle.className)}
+                title={statusStyle.label}
+                aria-hidden="true"
+              >
+                {statusStyle.letter}
+              </span>
+            )}
+
+            {/* Link target for symlinks */}
+            {isSymlink && node.target && (
+              <span className="text-xs font-mono text-cyan-700 dark:text-cyan-400 truncate max-w-xs" title={node.target}>
+                → {node.target}
+              </span>
+            )}
+
+            {/* Size, date and mode columns from tree -s -h -D -p or du */}
+            {showMetadata && (
+              <span className="flex items-center gap-3 text-xs font-mono text-muted-foreground tabular-nums">
+                {node.mode && <span aria-label={`Mode ${node.mode}`}>{node.mode}</span>}
+                {size !== undefined && (
+                  <span className="w-12 text-right" aria-label={`Size ${formatSize(size)}`}>
+                    {formatSize(size)}
+                  </span>
+                )}
+                {node.modified && <span aria-label={`Modified ${node.modified}`}>{node.modified}</span>}
+              </span>
+            )}
+
+            {/* Description from a # comment */}
+            {isEditingDescription ? (
+              <input
+                ref={descriptionInputRef}
+                type="text"
+                value={descriptionValue}
+                onChange={(e) => setDescriptionValue(e.target.value)}
+                onKeyDown={handleDescriptionKeyDown}
+                onBlur={handleDescriptionComplete}
+                placeholder="Add a description"
+                className={cn(
+                  'text-xs px-2 py-1 rounded-md border-2 border-primary/60',
+                  'focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary',
+                  'bg-background shadow-sm',
+                  'transition-all duration-200',
+                  'flex-1',
+                )}
+                onClick={(e) => e.stopPropagation()}
+                aria-label={`Description of ${node.name}`}
+              />
+            ) : node.description && (
+              <span
+                className="text-xs text-muted-foreground italic truncate max-w-xs"
+                onDoubleClick={handleEditDescription}
+                title={node.description}
+              >
+                # {node.description}
+              </span>
+            )}
             
             {/* Add folder button (only for folders) */}
             {isFolder && (
@@ -357,6 +503,22 @@ export function TreeNode({
               <Pencil className="w-3.5 h-3.5 text-muted-foreground hover:text-foreground transition-colors duration-200" />
             </button>
             
+            {/* Edit description button */}
+            {onDescriptionChange && (
+              <button
+                onClick={handleEditDescription}
+                className={cn(
+                  'opacity-0 group-hover:opacity-100 transition-opacity duration-200 cursor-pointer',
+                  'p-1.5 rounded-md hover:bg-accent-foreground/10',
+                  'focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring/50',
+                )}
+                aria-label={`Edit description of ${node.name}`}
+                tabIndex={-1}
+              >
+                <MessageSquare className="w-3.5 h-3.5 text-muted-foreground hover:text-foreground transition-colors duration-200" />
+              </button>
+            )}
+
             {/* Delete button */}
             <button
               onClick={handleDeleteClick}
@@ -401,10 +563,13 @@ export function TreeNode({
               node={child}
               onToggleExpand={onToggleExpand}
               onRename={onRename}
+              onDescriptionChange={onDescriptionChange}
               onDelete={onDelete}
               onSelect={onSelect}
               onAddNode={onAddNode}
               selectedNodeId={selectedNodeId}
+              showMetadata={showMetadata}
+              sizes={sizes}
             />
           ))}
         </div>
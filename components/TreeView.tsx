@@ -1,18 +1,22 @@
 'use client';
 
-import { forwardRef, useEffect, useCallback } from 'react';
+import { forwardRef, useEffect, useCallback, useMemo } from 'react';
 import { TreeNode as TreeNodeComponent } from './TreeNode';
 import { TreeNode as TreeNodeType } from '@/lib/types';
+import { computeNodeSizes } from '@/lib/formatter';
 import { FolderOpen } from 'lucide-react';
 
 interface TreeViewProps {
   nodes: TreeNodeType[];
   onToggleExpand: (id: string) => void;
   onRename?: (id: string, name: string) => void;
+  onDescriptionChange?: (id: string, description: string) => void;
   onDelete?: (id: string) => void;
   onSelect?: (id: string) => void;
   onAddNode?: (parentId: string, nodeType: 'file' | 'folder') => void;
   selectedNodeId?: string | null;
+  /** Whether to show size, date and mode columns */
+  showMetadata?: boolean;
 }
 
 /**
@@ -20,7 +24,10 @@ interface TreeViewProps {
  * Provides ref for export functionality and handles empty state
  */
 export const TreeView = forwardRef<HTMLDivElement, TreeViewProps>(
-  ({ nodes, onToggleExpand, onRename, onDelete, onSelect, onAddNode, selectedNodeId }, ref) => {
+  ({ nodes, onToggleExpand, onRename, onDescriptionChange, onDelete, onSelect, onAddNode, selectedNodeId, showMetadata }, ref) => {
+    // Folder sizes are rolled up once for the whole tree rather than per row
+    const sizes = useMemo(() => (showMetadata ? computeNodeSizes(nodes) : undefined), [nodes, showMetadata]);
+
     // Flatten tree for keyboard navigation
     const flattenNodes = useCallback((nodeList: TreeNodeType[]): TreeNodeType[] => {
       const result: TreeNodeType[] = [];
@@ -100,10 +107,13 @@ export const TreeView = forwardRef<HTMLDivElement, TreeViewProps>(
               node={node}
               onToggleExpand={onToggleExpand}
               onRename={onRename}
+              onDescriptionChange={onDescriptionChange}
               onDelete={onDelete}
               onSelect={onSelect}
               onAddNode={onAddNode}
               selectedNodeId={selectedNodeId}
+              showMetadata={showMetadata}
+              sizes={sizes}
             />
           ))}
         </div>
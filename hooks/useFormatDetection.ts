@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { detectInputFormat } from "@/lib/parser";
+import { FormatDetection, ParseWorkerRequest, ParseWorkerResponse } from "@/lib/types";
+import { WORKER_LINE_THRESHOLD } from "./useParseWorker";
+
+/**
+ * Pause in typing, in milliseconds, before the input's format is detected again
+ */
+const DETECTION_DELAY = 250;
+
+/**
+ * Custom hook that detects the format of the input once typing pauses
+ * Inputs large enough to be parsed in a Web Worker are scored there too, so
+ * the page stays responsive while they are edited.
+ */
+export function useFormatDetection(input: string): FormatDetection | null {
+  const [detection, setDetection] = useState<FormatDetection | null>(null);
+
+  useEffect(() => {
+    let worker: Worker | null = null;
+
+    const timeout = setTimeout(() => {
+      if (!input.trim()) {
+        setDetection(null);
+        return;
+      }
+
+      if (typeof Worker === "undefined" || input.split("\n").length < WORKER_LINE_THRESHOLD) {
+        setDetection(detectInputFormat(input));
+        return;
+      }
+
+      const detector = new Worker(new URL("../lib/parser.worker.ts", import.meta.url));
+      worker = detector;
+      detector.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+        if (event.data.type === "detection") {
+          setDetection(event.data.detection);
+        }
+        detector.terminate();
+      };
+      detector.onerror = () => detector.terminate();
+
+      const request: ParseWorkerRequest = { type: "detect", input };
+      detector.postMessage(request);
+    }, DETECTION_DELAY);
+
+    // Newer input replaces a detection that is still waiting or running
+    return () => {
+      clearTimeout(timeout);
+      worker?.terminate();
+    };
+  }, [input]);
+
+  return detection;
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { parseDirectoryStructure } from "@/lib/parser";
+import {
+  InputFormat,
+  ParseDetails,
+  ParseProgress,
+  ParseWorkerRequest,
+  ParseWorkerResponse,
+  TreeChunk,
+} from "@/lib/types";
+
+/**
+ * Inputs with fewer lines than this are parsed on the main thread,
+ * where starting a worker would cost more than it saves
+ */
+export const WORKER_LINE_THRESHOLD = 2000;
+
+/**
+ * Maximum number of nodes delivered per chunk
+ */
+const CHUNK_SIZE = 500;
+
+/**
+ * Callbacks for the stages of a parse
+ */
+export interface ParseHandlers {
+  /** Parsing succeeded; chunks follow */
+  onStart: (details: ParseDetails) => void;
+  /** A chunk of nodes; the first is the start of a new tree */
+  onChunk: (chunk: TreeChunk, isFirst: boolean) => void;
+  /** Parsing failed */
+  onError: (error: string, details: ParseDetails) => void;
+}
+
+/**
+ * Custom hook for parsing input in a Web Worker with progress and cancellation
+ * Falls back to parsing on the main thread for small inputs and where workers
+ * are unavailable.
+ */
+export function useParseWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+
+  /**
+   * Stop the running parse, if any
+   */
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  // Do not leave a worker running after the component unmounts
+  useEffect(() => cancel, [cancel]);
+
+  /**
+   * Parse the input, reporting results through the handlers
+   * `treeIndex` picks the tree to parse when the input is a document with several.
+   */
+  const parse = (
+    input: string,
+    format: InputFormat | undefined,
+    handlers: ParseHandlers,
+    treeIndex?: number,
+  ) => {
+    cancel();
+
+    if (typeof Worker === "undefined" || input.split("\n").length < WORKER_LINE_THRESHOLD) {
+      const result = parseDirectoryStructure(input, format, treeIndex);
+      if (result.success) {
+        handlers.onStart(result);
+        handlers.onChunk({ parentId: null, nodes: result.nodes }, true);
+      } else {
+        handlers.onError(result.error, result);
+      }
+      return;
+    }
+
+    const worker = new Worker(new URL("../lib/parser.worker.ts", import.meta.url));
+    workerRef.current = worker;
+    let total = 0;
+    let isFirst = true;
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case "progress":
+          setProgress(message.progress);
+          break;
+
+        case "error":
+          cancel();
+          handlers.onError(message.error, message);
+          break;
+
+        case "start":
+          total = message.total;
+          setProgress({ phase: "loading", loaded: 0, total });
+          handlers.onStart(message);
+          break;
+
+        case "chunk":
+          setProgress({ phase: "loading", loaded: message.loaded, total });
+          handlers.onChunk(message.chunk, isFirst);
+          isFirst = false;
+          break;
+
+        case "done":
+          cancel();
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cancel();
+      handlers.onError(`Failed to parse input: ${event.message}`, { diagnostics: [] });
+    };
+
+    const request: ParseWorkerRequest = { type: "parse", input, format, treeIndex, chunkSize: CHUNK_SIZE };
+    worker.postMessage(request);
+  };
+
+  return {
+    parse,
+    cancel,
+    progress,
+    isParsing: progress !== null,
+  };
+}
@@ -1,5 +1,6 @@
 import { useReducer } from "react";
-import { TreeNode, TreeState, TreeAction } from "@/lib/types";
+import { TreeNode, TreeState, TreeAction, TreeChunk } from "@/lib/types";
+import { collectNodeIds, createNodeId } from "@/lib/ids";
 
 /**
  * Initial state for the tree
@@ -32,6 +33,7 @@ function toggleNodeExpand(nodes: TreeNode[], targetId: string): TreeNode[] {
 
 /**
  * Helper function to recursively rename a node
+ * The node keeps its ID, so selection and references survive the rename.
  */
 function renameNode(
   nodes: TreeNode[],
@@ -55,6 +57,31 @@ function renameNode(
   });
 }
 
+/**
+ * Helper function to recursively set or clear a node's description
+ */
+function setNodeDescription(
+  nodes: TreeNode[],
+  targetId: string,
+  description: string
+): TreeNode[] {
+  return nodes.map((node) => {
+    if (node.id === targetId) {
+      return {
+        ...node,
+        description: description || undefined,
+      };
+    }
+    if (node.children) {
+      return {
+        ...node,
+        children: setNodeDescription(node.children, targetId, description),
+      };
+    }
+    return node;
+  });
+}
+
 /**
  * Helper function to recursively delete a node
  */
@@ -94,14 +121,15 @@ function findNodeById(nodes: TreeNode[], targetId: string): TreeNode | null {
 function addNodeToParent(
   nodes: TreeNode[],
   parentId: string,
-  nodeType: "file" | "folder"
+  nodeType: "file" | "folder",
+  usedIds: Set<string>
 ): TreeNode[] {
   return nodes.map((node) => {
     if (node.id === parentId && node.type === "folder") {
       const children = node.children || [];
       const newNodeName = nodeType === "folder" ? "New Folder" : "new-file.txt";
       const newNode: TreeNode = {
-        id: `${Date.now()}-${Math.random()}`,
+        id: createNodeId(node.id, newNodeName, usedIds),
         name: newNodeName,
         type: nodeType,
         depth: node.depth + 1,
@@ -117,7 +145,32 @@ function addNodeToParent(
     if (node.children) {
       return {
         ...node,
-        children: addNodeToParent(node.children, parentId, nodeType),
+        children: addNodeToParent(node.children, parentId, nodeType, usedIds),
+      };
+    }
+    return node;
+  });
+}
+
+/**
+ * Helper function to append a chunk of parsed nodes under its parent folder
+ */
+function appendChunk(nodes: TreeNode[], chunk: TreeChunk): TreeNode[] {
+  if (chunk.parentId === null) {
+    return [...nodes, ...chunk.nodes];
+  }
+  
+  return nodes.map((node) => {
+    if (node.id === chunk.parentId) {
+      return {
+        ...node,
+        children: [...(node.children || []), ...chunk.nodes],
+      };
+    }
+    if (node.children) {
+      return {
+        ...node,
+        children: appendChunk(node.children, chunk),
       };
     }
     return node;
@@ -133,7 +186,12 @@ function treeReducer(state: TreeState, action: TreeAction): TreeState {
       return {
         ...state,
         nodes: action.payload,
-        selectedNodeId: null,
+        // IDs are path-based, so a re-parsed tree can keep its selection
+        selectedNodeId:
+          state.selectedNodeId !== null &&
+          findNodeById(action.payload, state.selectedNodeId)
+            ? state.selectedNodeId
+            : null,
       };
 
     case "TOGGLE_EXPAND":
@@ -148,6 +206,16 @@ function treeReducer(state: TreeState, action: TreeAction): TreeState {
         nodes: renameNode(state.nodes, action.payload.id, action.payload.name),
       };
 
+    case "SET_DESCRIPTION":
+      return {
+        ...state,
+        nodes: setNodeDescription(
+          state.nodes,
+          action.payload.id,
+          action.payload.description
+        ),
+      };
+
     case "DELETE_NODE":
       return {
         ...state,
@@ -168,10 +236,17 @@ function treeReducer(state: TreeState, action: TreeAction): TreeState {
         nodes: addNodeToParent(
           state.nodes,
           action.payload.parentId,
-          action.payload.nodeType
+          action.payload.nodeType,
+          collectNodeIds(state.nodes)
         ),
       };
 
+    case "APPEND_NODES":
+      return {
+        ...state,
+        nodes: appendChunk(state.nodes, action.payload),
+      };
+
     default:
       return state;
   }
@@ -190,6 +265,13 @@ export function useTreeState() {
     dispatch({ type: "SET_TREE", payload: nodes });
   };
 
+  /**
+   * Append a chunk of nodes delivered after setTree by a background parse
+   */
+  const appendNodes = (chunk: TreeChunk) => {
+    dispatch({ type: "APPEND_NODES", payload: chunk });
+  };
+
   /**
    * Toggle the expanded state of a folder node
    */
@@ -204,6 +286,13 @@ export function useTreeState() {
     dispatch({ type: "RENAME_NODE", payload: { id, name } });
   };
 
+  /**
+   * Set or clear a node's description
+   */
+  const setDescriptionById = (id: string, description: string) => {
+    dispatch({ type: "SET_DESCRIPTION", payload: { id, description } });
+  };
+
   /**
    * Delete a node
    */
@@ -235,8 +324,10 @@ export function useTreeState() {
   return {
     state,
     setTree,
+    appendNodes,
     toggleExpand,
     renameNode: renameNodeById,
+    setDescription: setDescriptionById,
     deleteNode: deleteNodeById,
     selectNode,
     getNodeById,
@@ -0,0 +1,330 @@
+/**
+ * Archive module for listing the contents of zip and tar files in the browser
+ * Only the entry list is read: the zip central directory or the tar headers.
+ */
+
+import { buildTreeFromPaths } from './parser';
+import { assignNodeIds } from './ids';
+import { formatModified } from './folder-import';
+import { FolderImportResult, PathEntry } from './types';
+
+/**
+ * File names offered to the archive reader when dropped
+ */
+const ARCHIVE_NAME_PATTERN = /\.(?:zip|jar|war|tar|tgz|tar\.gz|gz)$/i;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+
+/**
+ * Folders written by macOS Finder holding resource forks, not real content
+ */
+const ZIP_METADATA_FOLDER = '__MACOSX';
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Whether a file looks like an archive this module can read
+ */
+export function isArchiveFile(file: { name: string }): boolean {
+  return ARCHIVE_NAME_PATTERN.test(file.name);
+}
+
+/**
+ * Reads a little-endian 64-bit number; archive offsets stay well within 2^53
+ */
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * Writes a Unix mode the way `ls -l` and `tree -p` do, e.g. drwxr-xr-x
+ */
+function formatMode(mode: number): string {
+  const kind = mode & 0xf000;
+  const type = kind === 0x4000 ? 'd' : kind === 0xa000 ? 'l' : '-';
+  const permissions = Array.from('rwxrwxrwx', (flag, index) => (mode & (1 << (8 - index)) ? flag : '-'));
+  return type + permissions.join('');
+}
+
+/**
+ * Lists a zip file from its central directory, without decompressing anything
+ * Names are read as UTF-8, which also covers the ASCII names of older archives.
+ */
+function readZipEntries(bytes: Uint8Array): PathEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the end of the file, before a comment of up to 64K
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('The zip central directory is missing; the file may be truncated');
+  }
+
+  let count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  // Zip64 archives keep the real values in a second end record
+  if ((count === 0xffff || offset === 0xffffffff) && end >= 20 && view.getUint32(end - 20, true) === ZIP64_END_LOCATOR) {
+    const zip64End = getUint64(view, end - 12);
+    count = getUint64(view, zip64End + 32);
+    offset = getUint64(view, zip64End + 48);
+  }
+
+  const entries: PathEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) {
+      throw new Error(`The zip central directory is corrupt at entry ${i + 1}`);
+    }
+
+    const madeBy = view.getUint8(offset + 5);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    let size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const attributes = view.getUint32(offset + 38, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    // Sizes over 4GB are moved to the Zip64 extra field
+    if (size === 0xffffffff) {
+      let extra = offset + 46 + nameLength;
+      const extraEnd = extra + extraLength;
+      while (extra + 4 <= extraEnd) {
+        if (view.getUint16(extra, true) === 0x0001) {
+          size = getUint64(view, extra + 4);
+          break;
+        }
+        extra += 4 + view.getUint16(extra + 2, true);
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const segments = name.split('/').filter(segment => segment && segment !== '.');
+    if (segments.length === 0 || segments[0] === ZIP_METADATA_FOLDER) {
+      continue;
+    }
+
+    const isFolder = name.endsWith('/');
+    const pad = (value: number) => String(value).padStart(2, '0');
+    entries.push({
+      segments,
+      isFolder,
+      size: isFolder ? undefined : size,
+      // DOS date and time fields, in local time
+      modified: `${(date >> 9) + 1980}-${pad((date >> 5) & 0xf)}-${pad(date & 0x1f)} ${pad(time >> 11)}:${pad((time >> 5) & 0x3f)}`,
+      // Archives made on Unix keep the file mode in the high half of the attributes
+      mode: madeBy === 3 && attributes >>> 16 ? formatMode(attributes >>> 16) : undefined,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Reads a NUL-terminated string from a tar header field
+ */
+function readTarString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const nul = field.indexOf(0);
+  return new TextDecoder().decode(nul === -1 ? field : field.subarray(0, nul));
+}
+
+/**
+ * Reads a numeric tar header field: octal text, or base-256 for large values
+ */
+function readTarNumber(bytes: Uint8Array, offset: number, length: number): number {
+  if (bytes[offset] & 0x80) {
+    let value = bytes[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + bytes[offset + i];
+    }
+    return value;
+  }
+  return parseInt(readTarString(bytes, offset, length).trim() || '0', 8);
+}
+
+/**
+ * Whether a block is a tar header, by its checksum
+ */
+function isTarHeader(header: Uint8Array): boolean {
+  if (header.length < TAR_BLOCK_SIZE) {
+    return false;
+  }
+
+  // The checksum is summed with its own field read as spaces
+  let sum = 8 * 0x20;
+  header.forEach((byte, index) => {
+    if (index < 148 || index >= 156) {
+      sum += byte;
+    }
+  });
+  return sum === readTarNumber(header, 148, 8);
+}
+
+/**
+ * Parses the `length key=value\n` records of a pax extended header
+ */
+function readPaxRecords(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  const text = new TextDecoder().decode(data);
+
+  for (const match of text.matchAll(/\d+ ([^=]+)=([^\n]*)\n/g)) {
+    records[match[1]] = match[2];
+  }
+  return records;
+}
+
+/**
+ * Lists a tar file from its headers, following pax and GNU long names
+ */
+function readTarEntries(bytes: Uint8Array): PathEntry[] {
+  const entries: PathEntry[] = [];
+  let pax: Record<string, string> = {};
+  let longName: string | null = null;
+  let longLink: string | null = null;
+  let offset = 0;
+
+  while (offset + TAR_BLOCK_SIZE <= bytes.length) {
+    const header = bytes.subarray(offset, offset + TAR_BLOCK_SIZE);
+
+    // The archive ends with blocks of zeros
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    if (!isTarHeader(header)) {
+      throw new Error(`The tar header at byte ${offset} is corrupt`);
+    }
+
+    const type = String.fromCharCode(header[156] || 0x30);
+    const isExtension = type === 'x' || type === 'g' || type === 'L' || type === 'K';
+    // A pax size replaces the header's for the entry it describes, as files
+    // over 8 GB do not fit the header field
+    const size = !isExtension && pax.size !== undefined ? Number(pax.size) : readTarNumber(header, 124, 12);
+    const data = bytes.subarray(offset + TAR_BLOCK_SIZE, offset + TAR_BLOCK_SIZE + size);
+    offset += TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    // Headers that describe the next entry rather than being one
+    if (type === 'x') {
+      pax = readPaxRecords(data);
+      continue;
+    }
+    if (type === 'L' || type === 'K') {
+      const text = readTarString(data, 0, data.length);
+      if (type === 'L') {
+        longName = text;
+      } else {
+        longLink = text;
+      }
+      continue;
+    }
+    if (type === 'g') {
+      continue;
+    }
+
+    const prefix = readTarString(header, 257, 6) === 'ustar' ? readTarString(header, 345, 155) : '';
+    const name = readTarString(header, 0, 100);
+    const path = pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+    const target = pax.linkpath ?? longLink ?? readTarString(header, 157, 100);
+    const mode = readTarNumber(header, 100, 8) & 0o7777;
+    const isFolder = type === '5' || path.endsWith('/');
+    const isLink = type === '2';
+
+    pax = {};
+    longName = null;
+    longLink = null;
+
+    const segments = path.split('/').filter(segment => segment && segment !== '.');
+    if (segments.length === 0) {
+      continue;
+    }
+
+    entries.push({
+      segments,
+      isFolder,
+      size: isFolder || isLink ? undefined : size,
+      modified: formatModified(readTarNumber(header, 136, 12) * 1000),
+      mode: formatMode(mode | (isFolder ? 0x4000 : isLink ? 0xa000 : 0x8000)),
+      target: isLink ? target : undefined,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Decompresses gzip data with the browser's built-in DecompressionStream
+ */
+async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('gzip');
+  const writer = stream.writable.getWriter();
+  // Corrupt data makes the reads below fail, so write errors can be ignored
+  writer.write(bytes.slice()).catch(() => {});
+  writer.close().catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Builds the tree of a zip, tar or gzipped tar archive from its bytes
+ * The archive type is recognised from its contents, not its name.
+ */
+export async function readArchive(bytes: Uint8Array): Promise<FolderImportResult> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let entries: PathEntry[];
+
+  if (bytes.length >= 4 && [ZIP_LOCAL_HEADER, ZIP_END_OF_DIRECTORY].includes(view.getUint32(0, true))) {
+    entries = readZipEntries(bytes);
+  } else if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    const tar = await gunzip(bytes);
+    if (!isTarHeader(tar.subarray(0, TAR_BLOCK_SIZE))) {
+      throw new Error('The gzip file does not contain a tar archive');
+    }
+    entries = readTarEntries(tar);
+  } else if (isTarHeader(bytes.subarray(0, TAR_BLOCK_SIZE))) {
+    entries = readTarEntries(bytes);
+  } else {
+    throw new Error('Not a zip, tar or tar.gz archive');
+  }
+
+  return {
+    nodes: assignNodeIds(buildTreeFromPaths(entries)),
+    entryCount: entries.length,
+    skippedCount: 0,
+    truncated: false,
+  };
+}
+
+/**
+ * Builds the tree of an archive file chosen or dropped by the user
+ */
+export async function importArchive(file: Blob): Promise<FolderImportResult> {
+  return readArchive(new Uint8Array(await file.arrayBuffer()));
+}
@@ -0,0 +1,47 @@
+import { TreeNode, TreeChunk } from './types';
+
+/**
+ * Counts a node and all of its descendants
+ */
+export function countNodes(nodes: TreeNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + (node.children ? countNodes(node.children) : 0), 0);
+}
+
+/**
+ * Splits a tree into chunks of at most `maxNodes` nodes, in document order
+ * Subtrees small enough to fit are kept whole; larger folders are sent empty
+ * first and their children follow in later chunks addressed to the folder's id.
+ * Appending the chunks in order rebuilds the original tree.
+ */
+export function splitTreeIntoChunks(nodes: TreeNode[], maxNodes: number): TreeChunk[] {
+  const chunks: TreeChunk[] = [];
+  let current: TreeChunk | null = null;
+  let currentSize = 0;
+  
+  const emit = (parentId: string | null, node: TreeNode, size: number) => {
+    if (!current || current.parentId !== parentId || currentSize + size > maxNodes) {
+      current = { parentId, nodes: [] };
+      chunks.push(current);
+      currentSize = 0;
+    }
+    
+    current.nodes.push(node);
+    currentSize += size;
+  };
+  
+  const visit = (siblings: TreeNode[], parentId: string | null) => {
+    for (const node of siblings) {
+      const size = countNodes([node]);
+      
+      if (size <= maxNodes || !node.children) {
+        emit(parentId, node, size);
+      } else {
+        emit(parentId, { ...node, children: [] }, 1);
+        visit(node.children, node.id);
+      }
+    }
+  };
+  
+  visit(nodes, null);
+  return chunks;
+}
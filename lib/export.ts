@@ -2,57 +2,446 @@
  * Export utilities for image and text export functionality
  */
 
-import { toPng } from 'html-to-image';
-import { TreeNode } from './types';
-import { formatTreeToText } from './formatter';
+import { toCanvas } from 'html-to-image';
+import { TreeNode, FormatStyle, FormatOptions, ChangeStatus } from './types';
+import { formatTextAsHtml, formatTreeToHtmlList, formatTreeToText } from './formatter';
+import { TREE_SOURCE_KEYWORD, writePngText } from './png-text';
 
 /**
- * Export tree view as PNG image
- * 
- * @param element - The DOM element to capture
+ * Downloads a blob as a file
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+
+  // The download has started by the time the click handler returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Raster formats for image export
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * Options for image export
+ */
+export interface ImageExportOptions {
+  /** File format (default: 'png') */
+  format?: ImageFormat;
+  /** Page background, none, or backgroundColor (default: 'theme') */
+  background?: 'theme' | 'transparent' | 'custom';
+  /** Background colour when background is 'custom' */
+  backgroundColor?: string;
+  /** Pixels per CSS pixel (default: 2) */
+  scale?: number;
+  /** Space around the tree in CSS pixels (default: 24) */
+  padding?: number;
+  /** Heading drawn above the tree */
+  title?: string;
+  /** Smaller line drawn under the title */
+  caption?: string;
+  /** Tree source stored inside PNG files so they can be imported again */
+  source?: string;
+}
+
+const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+/**
+ * Quality of lossy formats, high enough to keep small text legible
+ */
+const IMAGE_QUALITY = 0.92;
+
+/**
+ * Whether a computed colour is fully transparent, as an unset background computes
+ */
+function isTransparentColor(color: string): boolean {
+  return color === 'transparent' || /^(?:rgba|hsla)\(.*[,/]\s*0(?:\.0*)?%?\s*\)$/.test(color);
+}
+
+/**
+ * Background colour for an export, or undefined to leave it transparent
+ * JPEG has no transparency, so it falls back to the theme background, and a
+ * page with no background of its own falls back to white.
+ */
+function resolveBackground(element: HTMLElement, options: ImageExportOptions): string | undefined {
+  const { format = 'png', background = 'theme', backgroundColor } = options;
+
+  if (background === 'custom' && backgroundColor) {
+    return backgroundColor;
+  }
+  if (background === 'transparent' && format !== 'jpeg') {
+    return undefined;
+  }
+  const color = getComputedStyle(element.ownerDocument.body).backgroundColor;
+  return color && !isTransparentColor(color) ? color : '#ffffff';
+}
+
+/**
+ * Builds the element that is captured: a copy of the tree laid out at its full
+ * size, with the padding and the optional title and caption around it
+ * The copy is placed off-screen so the page itself does not change.
+ */
+export function createImageExportElement(element: HTMLElement, options: ImageExportOptions = {}): HTMLElement {
+  const { padding = 24, title, caption } = options;
+  const document = element.ownerDocument;
+
+  const container = document.createElement('div');
+  Object.assign(container.style, {
+    position: 'fixed',
+    left: '-100000px',
+    top: '0',
+    width: 'max-content',
+    padding: `${padding}px`,
+    color: getComputedStyle(element).color,
+  });
+
+  if (title) {
+    const heading = document.createElement('div');
+    heading.textContent = title;
+    Object.assign(heading.style, { fontSize: '20px', fontWeight: '600', lineHeight: '28px' });
+    container.appendChild(heading);
+  }
+  if (caption) {
+    const subheading = document.createElement('div');
+    subheading.textContent = caption;
+    Object.assign(subheading.style, { fontSize: '14px', lineHeight: '20px', opacity: '0.7' });
+    container.appendChild(subheading);
+  }
+
+  // The tree's own scrolling, frame and background are dropped so every row shows
+  const tree = element.cloneNode(true) as HTMLElement;
+  Object.assign(tree.style, {
+    width: 'max-content',
+    height: 'auto',
+    maxHeight: 'none',
+    overflow: 'visible',
+    padding: '0',
+    marginTop: title || caption ? '16px' : '0',
+    border: 'none',
+    borderRadius: '0',
+    boxShadow: 'none',
+    background: 'transparent',
+  });
+  container.appendChild(tree);
+
+  return container;
+}
+
+/**
+ * Export the whole tree as an image
+ * The tree is rendered off-screen at its full size, so rows scrolled out of
+ * view or wider than the panel are included. PNG files also carry the tree
+ * source, when given, so dropping them on the input panel restores the tree.
+ *
+ * @param element - The tree view element to capture
+ * @param options - Format, background, scale, padding, title and caption
  * @param filename - Name for the downloaded file
  * @returns Promise that resolves when export is complete
  */
 export async function exportAsImage(
   element: HTMLElement,
-  filename: string = 'directory-structure.png'
+  options: ImageExportOptions = {},
+  filename?: string
 ): Promise<void> {
+  const { format = 'png', scale = 2 } = options;
+  const container = createImageExportElement(element, options);
+  element.ownerDocument.body.appendChild(container);
+
+  let blob: Blob | null;
   try {
-    // Generate PNG from the element
-    const dataUrl = await toPng(element, {
+    const canvas = await toCanvas(container, {
       cacheBust: true,
-      backgroundColor: '#ffffff',
-      pixelRatio: 2, // Higher quality export
+      backgroundColor: resolveBackground(element, options),
+      pixelRatio: scale,
+      // The copy is captured where it would be on the page, not off-screen
+      style: { position: 'static', left: '0', top: '0' },
     });
-
-    // Create download link and trigger download
-    const link = document.createElement('a');
-    link.download = filename;
-    link.href = dataUrl;
-    link.click();
+    blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, IMAGE_MIME_TYPES[format], IMAGE_QUALITY));
   } catch (error) {
     console.error('Failed to export image:', error);
     throw new Error('Failed to generate image. Please try again.');
+  } finally {
+    container.remove();
+  }
+
+  // Browsers without an encoder for the format hand back a PNG instead
+  if (!blob || blob.type !== IMAGE_MIME_TYPES[format]) {
+    throw new Error(`This browser cannot save ${format.toUpperCase()} images. Please choose PNG.`);
+  }
+  if (format === 'png' && options.source) {
+    const bytes = writePngText(new Uint8Array(await blob.arrayBuffer()), TREE_SOURCE_KEYWORD, options.source);
+    blob = new Blob([bytes.slice()], { type: blob.type });
+  }
+  downloadBlob(blob, filename ?? `directory-structure.${format === 'jpeg' ? 'jpg' : format}`);
+}
+
+/**
+ * Colour schemes for SVG export, matching the tree view's light and dark themes
+ */
+export type SvgTheme = 'light' | 'dark';
+
+/**
+ * Options for SVG export
+ */
+export interface SvgExportOptions {
+  /** Colour scheme (default: 'light') */
+  theme?: SvgTheme;
+  /** Whether to leave out the contents of collapsed folders (default: false) */
+  visibleOnly?: boolean;
+  /** Whether to write descriptions after the names (default: true) */
+  includeDescriptions?: boolean;
+}
+
+interface SvgPalette {
+  background: string;
+  text: string;
+  muted: string;
+  line: string;
+  folder: string;
+  file: string;
+  symlink: string;
+  status: Record<ChangeStatus, string>;
+}
+
+/**
+ * The tree view's Tailwind colours, as hex values
+ */
+const SVG_PALETTES: Record<SvgTheme, SvgPalette> = {
+  light: {
+    background: '#ffffff',
+    text: '#0f172a',
+    muted: '#64748b',
+    line: '#cbd5e1',
+    folder: '#ca8a04',
+    file: '#6b7280',
+    symlink: '#0891b2',
+    status: { added: '#15803d', modified: '#b45309', deleted: '#b91c1c', renamed: '#1d4ed8' },
+  },
+  dark: {
+    background: '#0f172a',
+    text: '#f8fafc',
+    muted: '#94a3b8',
+    line: '#334155',
+    folder: '#eab308',
+    file: '#9ca3af',
+    symlink: '#22d3ee',
+    status: { added: '#4ade80', modified: '#fbbf24', deleted: '#f87171', renamed: '#60a5fa' },
+  },
+};
+
+/**
+ * Lucide icon paths on a 24×24 grid, the same icons the tree view shows
+ */
+const SVG_ICONS = {
+  folder: ['M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z'],
+  file: ['M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z', 'M14 2v4a2 2 0 0 0 2 2h4'],
+  symlink: [
+    'm10 18 3-3-3-3',
+    'M14 2v4a2 2 0 0 0 2 2h4',
+    'M4 11V4a2 2 0 0 1 2-2h9l5 5v13a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2v-3a2 2 0 0 1 2-2h7',
+  ],
+};
+
+/**
+ * Row layout in pixels, following the tree view's spacing
+ */
+const SVG_LAYOUT = {
+  padding: 16,
+  rowHeight: 28,
+  indent: 20,
+  iconSize: 16,
+  iconGap: 6,
+  fontSize: 14,
+  smallFontSize: 12,
+  // Monospace glyphs are about 0.6em wide, which sizes the canvas without measuring text
+  charWidth: 0.6,
+};
+
+const SVG_FONT_FAMILY = "ui-monospace, SFMono-Regular, Menlo, Consolas, 'Liberation Mono', monospace";
+
+/**
+ * Escapes text for SVG content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Draws tree nodes as a standalone SVG document
+ * The drawing is built from the nodes rather than the page, so it covers the
+ * whole tree whether or not it is on screen, and stays sharp at any size.
+ *
+ * @param nodes - Tree nodes to draw
+ * @param options - Theme and which nodes and labels to include
+ * @returns SVG markup
+ */
+export function generateSvg(nodes: TreeNode[], options: SvgExportOptions = {}): string {
+  const { theme = 'light', visibleOnly = false, includeDescriptions = true } = options;
+  const palette = SVG_PALETTES[theme];
+  const { padding, rowHeight, indent, iconSize, iconGap, fontSize, smallFontSize, charWidth } = SVG_LAYOUT;
+
+  const rows: string[] = [];
+  const lines: string[] = [];
+  let rowCount = 0;
+  let width = 0;
+
+  const iconX = (depth: number) => padding + depth * indent;
+  const rowCenter = (row: number) => padding + row * rowHeight + rowHeight / 2;
+
+  // Draws a node's row and returns the row index, then draws its children
+  function draw(node: TreeNode, depth: number): number {
+    const row = rowCount++;
+    const x = iconX(depth);
+    const y = rowCenter(row);
+    const kind = node.type === 'folder' ? 'folder' : node.type === 'symlink' ? 'symlink' : 'file';
+    const iconColor = palette[kind];
+    const scale = iconSize / 24;
+
+    const paths = SVG_ICONS[kind].map(d => `<path d="${d}"/>`).join('');
+    const parts = [
+      `<g transform="translate(${x} ${y - iconSize / 2}) scale(${scale})" fill="none" stroke="${iconColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${paths}</g>`,
+    ];
+
+    // Labels follow each other at estimated text widths
+    let textX = x + iconSize + iconGap;
+    const addText = (text: string, size: number, attributes: string) => {
+      parts.push(`<text x="${textX}" y="${y}" font-size="${size}" dominant-baseline="central"${attributes}>${escapeXml(text)}</text>`);
+      textX += text.length * size * charWidth + 8;
+    };
+
+    const nameColor = node.status ? palette.status[node.status] : node.type === 'folder' ? palette.text : palette.muted;
+    addText(
+      node.name,
+      fontSize,
+      ` fill="${nameColor}"${node.type === 'folder' ? ' font-weight="600"' : ''}${node.status === 'deleted' ? ' text-decoration="line-through"' : ''}`
+    );
+    if (node.renamedFrom) {
+      addText(`from ${node.renamedFrom}`, smallFontSize, ` fill="${palette.muted}"`);
+    }
+    if (node.type === 'symlink' && node.target) {
+      addText(`→ ${node.target}`, smallFontSize, ` fill="${palette.symlink}"`);
+    }
+    if (includeDescriptions && node.description) {
+      addText(`# ${node.description}`, smallFontSize, ` fill="${palette.muted}" font-style="italic"`);
+    }
+
+    rows.push(parts.join(''));
+    width = Math.max(width, textX - 8 + padding);
+
+    const showChildren = node.children && node.children.length > 0 && (!visibleOnly || node.isExpanded);
+    if (showChildren) {
+      // An elbow from the folder's icon to each child, on one shared vertical line
+      const lineX = x + iconSize / 2;
+      let lastChildY = y;
+      for (const child of node.children!) {
+        const childY = rowCenter(draw(child, depth + 1));
+        lines.push(`M${lineX} ${childY}H${iconX(depth + 1) - 2}`);
+        lastChildY = childY;
+      }
+      lines.push(`M${lineX} ${y + iconSize / 2 + 2}V${lastChildY}`);
+    }
+    return row;
+  }
+
+  for (const node of nodes) {
+    draw(node, 0);
+  }
+
+  const height = padding * 2 + rowCount * rowHeight;
+  width = Math.ceil(Math.max(width, padding * 2 + iconSize));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${palette.background}"/>`,
+    lines.length > 0 ? `<path d="${lines.join('')}" fill="none" stroke="${palette.line}" stroke-width="1"/>` : '',
+    `<g font-family="${escapeXml(SVG_FONT_FAMILY)}">`,
+    ...rows,
+    '</g>',
+    '</svg>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Export tree structure as an SVG image
+ *
+ * @param nodes - Tree nodes to draw
+ * @param options - Theme and which nodes and labels to include
+ * @param filename - Name for the downloaded file
+ */
+export function exportAsSvg(
+  nodes: TreeNode[],
+  options: SvgExportOptions = {},
+  filename: string = 'directory-structure.svg'
+): void {
+  try {
+    downloadBlob(new Blob([generateSvg(nodes, options)], { type: 'image/svg+xml' }), filename);
+  } catch (error) {
+    console.error('Failed to export SVG:', error);
+    throw new Error('Failed to generate SVG. Please try again.');
+  }
+}
+
+/**
+ * Styles that draw the tree as text, which are also copied as monospace HTML
+ * The other styles are read by tools that take the plain text, and a
+ * spreadsheet would put a pasted CSV block in a single column.
+ */
+const RICH_TEXT_STYLES: FormatStyle[] = ['markdown', 'ascii'];
+
+/**
+ * Writes plain text to the clipboard, along with HTML where the browser
+ * supports ClipboardItem, so rich editors paste the HTML and others the text
+ */
+async function writeClipboard(text: string, html?: string): Promise<void> {
+  if (html && typeof ClipboardItem !== 'undefined' && typeof navigator.clipboard.write === 'function') {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/html': new Blob([html], { type: 'text/html' }),
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+      }),
+    ]);
+    return;
   }
+  await navigator.clipboard.writeText(text);
 }
 
 /**
  * Copy tree structure as formatted text to clipboard
+ * Text trees are also copied as a monospace <pre> block, so they stay aligned
+ * when pasted into email, Word or Google Docs.
  * 
  * @param nodes - Tree nodes to format and copy
- * @param style - Format style ('markdown' or 'ascii')
+ * @param style - Format style: a text tree ('markdown', 'ascii', 'json', 'tree-json', 'yaml'),
+ * a flat list ('paths', 'csv', 'tsv') or a diagram ('mermaid', 'mermaid-mindmap', 'dot',
+ * 'plantuml', 'plantuml-salt')
+ * @param options - Further formatting options, such as whether to include metadata
  * @returns Promise that resolves when copy is complete
  */
 export async function copyAsText(
   nodes: TreeNode[],
-  style: 'markdown' | 'ascii' = 'markdown'
+  style: FormatStyle = 'markdown',
+  options: Omit<FormatOptions, 'style'> = {}
 ): Promise<void> {
   try {
     // Generate formatted text
-    const text = formatTreeToText(nodes, { style });
+    const text = formatTreeToText(nodes, { ...options, style });
 
-    // Use Clipboard API to copy text
-    await navigator.clipboard.writeText(text);
+    await writeClipboard(text, RICH_TEXT_STYLES.includes(style) ? formatTextAsHtml(text) : undefined);
   } catch (error) {
     console.error('Failed to copy to clipboard:', error);
     
@@ -65,6 +454,31 @@ export async function copyAsText(
   }
 }
 
+/**
+ * Copy tree structure as a nested HTML list with folder and file icons
+ * Editors without HTML support paste the markdown version instead.
+ *
+ * @param nodes - Tree nodes to format and copy
+ * @param options - Whether to include metadata and change markers
+ * @returns Promise that resolves when copy is complete
+ */
+export async function copyAsRichList(
+  nodes: TreeNode[],
+  options: Pick<FormatOptions, 'includeMetadata' | 'includeStatus'> = {}
+): Promise<void> {
+  try {
+    await writeClipboard(formatTreeToText(nodes, { ...options, style: 'markdown' }), formatTreeToHtmlList(nodes, options));
+  } catch (error) {
+    console.error('Failed to copy to clipboard:', error);
+
+    if (error instanceof DOMException && error.name === 'NotAllowedError') {
+      throw new Error('Clipboard access denied. Please grant permission and try again.');
+    }
+
+    throw new Error('Failed to copy to clipboard. Please try again.');
+  }
+}
+
 /**
  * Check if clipboard API is available
  */
@@ -79,6 +493,52 @@ export function isClipboardAvailable(): boolean {
  */
 export type ScriptType = 'powershell' | 'cmd' | 'bash' | 'zsh';
 
+/**
+ * Paths collected from the tree for script generation
+ */
+interface ScriptPaths {
+  folders: string[];
+  files: string[];
+  /** Symlinks, created last so their targets already exist */
+  links: ScriptLink[];
+}
+
+/**
+ * A symlink to create, with its target as written and as seen from the script's folder
+ */
+interface ScriptLink {
+  path: string;
+  target: string;
+  /** Target relative to where the script runs, or as written when absolute */
+  resolvedTarget: string;
+  /** Whether the target is a folder, which Windows links must be told */
+  isFolder: boolean;
+}
+
+/**
+ * Resolves a relative link target against the folder holding the link
+ * Absolute targets are returned as written; targets climbing out of the
+ * tree keep their leading `..` segments.
+ */
+function resolveLinkTarget(linkPath: string, target: string): string {
+  if (/^(?:[a-zA-Z]:)?[\\/]/.test(target)) {
+    return target;
+  }
+  
+  const segments = linkPath.split('/').slice(0, -1);
+  for (const segment of target.split(/[\\/]+/)) {
+    if (!segment || segment === '.') {
+      continue;
+    }
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/') || '.';
+}
+
 /**
  * Generate a shell script to create the directory structure
  * 
@@ -87,7 +547,8 @@ export type ScriptType = 'powershell' | 'cmd' | 'bash' | 'zsh';
  * @returns Shell script as string
  */
 export function generateScript(nodes: TreeNode[], scriptType: ScriptType): string {
-  const paths: { folders: string[]; files: string[] } = { folders: [], files: [] };
+  const paths: ScriptPaths = { folders: [], files: [], links: [] };
+  const linkTargets: { path: string; target: string }[] = [];
   
   // Collect all paths
   function collectPaths(node: TreeNode, parentPath: string = '') {
@@ -100,6 +561,8 @@ export function generateScript(nodes: TreeNode[], scriptType: ScriptType): strin
           collectPaths(child, currentPath);
         }
       }
+    } else if (node.type === 'symlink' && node.target) {
+      linkTargets.push({ path: currentPath, target: node.target });
     } else {
       paths.files.push(currentPath);
     }
@@ -109,6 +572,13 @@ export function generateScript(nodes: TreeNode[], scriptType: ScriptType): strin
     collectPaths(node);
   }
   
+  // Targets are matched against the tree once every folder is known
+  const folders = new Set(paths.folders);
+  for (const { path, target } of linkTargets) {
+    const resolvedTarget = resolveLinkTarget(path, target);
+    paths.links.push({ path, target, resolvedTarget, isFolder: /[\\/]$/.test(target) || folders.has(resolvedTarget) });
+  }
+  
   // Generate script based on type
   switch (scriptType) {
     case 'powershell':
@@ -127,7 +597,7 @@ export function generateScript(nodes: TreeNode[], scriptType: ScriptType): strin
 /**
  * Generate PowerShell script
  */
-function generatePowerShellScript(paths: { folders: string[]; files: string[] }): string {
+function generatePowerShellScript(paths: ScriptPaths): string {
   const lines: string[] = [
     '# PowerShell script to create directory structure',
     '# Run this script in PowerShell',
@@ -154,6 +624,18 @@ function generatePowerShellScript(paths: { folders: string[]; files: string[] })
     lines.push('');
   }
   
+  // Create symlinks
+  if (paths.links.length > 0) {
+    lines.push('# Create symbolic links');
+    // New-Item resolves a relative target against the current folder, not the link's
+    for (const link of paths.links) {
+      const psPath = link.path.replace(/\//g, '\\');
+      const psTarget = link.resolvedTarget.replace(/\//g, '\\');
+      lines.push(`New-Item -ItemType SymbolicLink -Force -Path "${psPath}" -Target "${psTarget}" | Out-Null`);
+    }
+    lines.push('');
+  }
+  
   lines.push('Write-Host "Directory structure created successfully!" -ForegroundColor Green');
   
   return lines.join('\n');
@@ -162,7 +644,7 @@ function generatePowerShellScript(paths: { folders: string[]; files: string[] })
 /**
  * Generate CMD/Batch script
  */
-function generateCmdScript(paths: { folders: string[]; files: string[] }): string {
+function generateCmdScript(paths: ScriptPaths): string {
   const lines: string[] = [
     '@echo off',
     'REM Batch script to create directory structure',
@@ -190,6 +672,17 @@ function generateCmdScript(paths: { folders: string[]; files: string[] }): strin
     lines.push('');
   }
   
+  // Create symlinks
+  if (paths.links.length > 0) {
+    lines.push('REM Create symbolic links');
+    for (const link of paths.links) {
+      const cmdPath = link.path.replace(/\//g, '\\');
+      const cmdTarget = link.target.replace(/\//g, '\\');
+      lines.push(`mklink ${link.isFolder ? '/D ' : ''}"${cmdPath}" "${cmdTarget}" >nul`);
+    }
+    lines.push('');
+  }
+  
   lines.push('echo Directory structure created successfully!');
   
   return lines.join('\n');
@@ -198,7 +691,7 @@ function generateCmdScript(paths: { folders: string[]; files: string[] }): strin
 /**
  * Generate Bash script
  */
-function generateBashScript(paths: { folders: string[]; files: string[] }): string {
+function generateBashScript(paths: ScriptPaths): string {
   const lines: string[] = [
     '#!/bin/bash',
     '# Bash script to create directory structure',
@@ -224,6 +717,15 @@ function generateBashScript(paths: { folders: string[]; files: string[] }): stri
     lines.push('');
   }
   
+  // Create symlinks
+  if (paths.links.length > 0) {
+    lines.push('# Create symbolic links');
+    for (const link of paths.links) {
+      lines.push(`ln -sfn "${link.target}" "${link.path}"`);
+    }
+    lines.push('');
+  }
+  
   lines.push('echo "Directory structure created successfully!"');
   
   return lines.join('\n');
@@ -232,7 +734,7 @@ function generateBashScript(paths: { folders: string[]; files: string[] }): stri
 /**
  * Generate Zsh script (similar to Bash but with Zsh-specific features)
  */
-function generateZshScript(paths: { folders: string[]; files: string[] }): string {
+function generateZshScript(paths: ScriptPaths): string {
   const lines: string[] = [
     '#!/bin/zsh',
     '# Zsh script to create directory structure',
@@ -258,6 +760,15 @@ function generateZshScript(paths: { folders: string[]; files: string[] }): strin
     lines.push('');
   }
   
+  // Create symlinks
+  if (paths.links.length > 0) {
+    lines.push('# Create symbolic links');
+    for (const link of paths.links) {
+      lines.push(`ln -sfn "${link.target}" "${link.path}"`);
+    }
+    lines.push('');
+  }
+  
   lines.push('print "Directory structure created successfully!"');
   
   return lines.join('\n');
@@ -0,0 +1,239 @@
+/**
+ * Folder import module for building trees from local folders in the browser
+ * Nothing is uploaded: only names, sizes and modification times are read.
+ */
+
+import { buildTreeFromPaths } from './parser';
+import { assignNodeIds } from './ids';
+import { FolderImportOptions, FolderImportResult, PathEntry } from './types';
+
+/**
+ * Skip the usual noise and stop at 10,000 entries
+ */
+export const DEFAULT_FOLDER_IMPORT_OPTIONS: FolderImportOptions = {
+  skipNodeModules: true,
+  skipGit: true,
+  skipDotfiles: false,
+  maxDepth: null,
+  maxEntries: 10000,
+};
+
+/**
+ * A folder handle as returned by `showDirectoryPicker`
+ */
+export interface DirectoryHandle {
+  kind: 'directory';
+  name: string;
+  values(): AsyncIterable<DirectoryHandle | FileHandle>;
+}
+
+/**
+ * A file handle inside a picked folder
+ */
+export interface FileHandle {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<File>;
+}
+
+/**
+ * A file or folder from any of the import sources
+ * Folders can be listed; files can be read for their size and date.
+ */
+interface FolderItem {
+  name: string;
+  list?: () => Promise<FolderItem[]>;
+  getFile?: () => Promise<File>;
+}
+
+/**
+ * Whether an entry is left out by the skip options
+ */
+function isSkipped(name: string, options: FolderImportOptions): boolean {
+  return (
+    (options.skipNodeModules && name === 'node_modules') ||
+    (options.skipGit && name === '.git') ||
+    (options.skipDotfiles && name.startsWith('.'))
+  );
+}
+
+/**
+ * Writes a file's modification time the way `tree -D --timefmt '%F %R'` does
+ */
+export function formatModified(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Walks the items depth first in name order, applying the skip options and limits
+ * The items themselves are never skipped: they are what the user chose to import.
+ */
+async function walkItems(items: FolderItem[], options: FolderImportOptions): Promise<FolderImportResult> {
+  const entries: PathEntry[] = [];
+  let skippedCount = 0;
+  let truncated = false;
+
+  const byName = (a: FolderItem, b: FolderItem) => a.name.localeCompare(b.name);
+
+  const visit = async (item: FolderItem, parents: string[]) => {
+    if (parents.length > 0 && isSkipped(item.name, options)) {
+      skippedCount++;
+      return;
+    }
+    if (options.maxEntries !== null && entries.length >= options.maxEntries) {
+      truncated = true;
+      return;
+    }
+
+    const segments = [...parents, item.name];
+
+    if (item.list) {
+      entries.push({ segments, isFolder: true });
+
+      // Folders at the depth limit are listed without reading their contents,
+      // so whether they had any is unknown and the listing counts as cut short
+      if (options.maxDepth !== null && parents.length >= options.maxDepth) {
+        truncated = true;
+        return;
+      }
+      const children = await item.list();
+      for (const child of children.sort(byName)) {
+        await visit(child, segments);
+      }
+      return;
+    }
+
+    const file = await item.getFile?.();
+    entries.push({
+      segments,
+      size: file?.size,
+      modified: file ? formatModified(file.lastModified) : undefined,
+    });
+  };
+
+  for (const item of [...items].sort(byName)) {
+    await visit(item, []);
+  }
+
+  return {
+    nodes: assignNodeIds(buildTreeFromPaths(entries)),
+    entryCount: entries.length,
+    skippedCount,
+    truncated,
+  };
+}
+
+/**
+ * Wraps a drag-and-drop entry
+ */
+function fromFileSystemEntry(entry: FileSystemEntry): FolderItem {
+  if (entry.isDirectory) {
+    const directory = entry as FileSystemDirectoryEntry;
+    return {
+      name: entry.name,
+      list: async () => {
+        // readEntries returns the contents in batches until it returns none
+        const reader = directory.createReader();
+        const children: FileSystemEntry[] = [];
+        for (;;) {
+          const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+          if (batch.length === 0) {
+            break;
+          }
+          children.push(...batch);
+        }
+        return children.map(fromFileSystemEntry);
+      },
+    };
+  }
+
+  const file = entry as FileSystemFileEntry;
+  return {
+    name: entry.name,
+    getFile: () => new Promise<File>((resolve, reject) => file.file(resolve, reject)),
+  };
+}
+
+/**
+ * Wraps a handle from `showDirectoryPicker`
+ */
+function fromHandle(handle: DirectoryHandle | FileHandle): FolderItem {
+  if (handle.kind === 'file') {
+    return { name: handle.name, getFile: () => handle.getFile() };
+  }
+
+  return {
+    name: handle.name,
+    list: async () => {
+      const children: FolderItem[] = [];
+      for await (const child of handle.values()) {
+        children.push(fromHandle(child));
+      }
+      return children;
+    },
+  };
+}
+
+/**
+ * Imports files and folders dropped onto the page
+ * The entries are read before the first await, while the drop event's data is
+ * still available.
+ */
+export function importDataTransfer(
+  items: DataTransferItemList,
+  options: FolderImportOptions = DEFAULT_FOLDER_IMPORT_OPTIONS
+): Promise<FolderImportResult> {
+  const entries = Array.from(items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  return walkItems(entries.map(fromFileSystemEntry), options);
+}
+
+/**
+ * Imports a folder chosen with `showDirectoryPicker`
+ */
+export function importDirectoryHandle(
+  handle: DirectoryHandle,
+  options: FolderImportOptions = DEFAULT_FOLDER_IMPORT_OPTIONS
+): Promise<FolderImportResult> {
+  return walkItems([fromHandle(handle)], options);
+}
+
+/**
+ * Imports the files of an `<input webkitdirectory>`
+ * Only files are listed, each with its path below the chosen folder, so
+ * empty folders cannot be shown.
+ */
+export function importFileList(
+  files: ArrayLike<File>,
+  options: FolderImportOptions = DEFAULT_FOLDER_IMPORT_OPTIONS
+): Promise<FolderImportResult> {
+  type Folder = { name: string; folders: Map<string, Folder>; files: File[] };
+  const root: Folder = { name: '', folders: new Map(), files: [] };
+
+  for (const file of Array.from(files)) {
+    const segments = (file.webkitRelativePath || file.name).split('/').filter(Boolean);
+    let folder = root;
+    for (const segment of segments.slice(0, -1)) {
+      let next = folder.folders.get(segment);
+      if (!next) {
+        next = { name: segment, folders: new Map(), files: [] };
+        folder.folders.set(segment, next);
+      }
+      folder = next;
+    }
+    folder.files.push(file);
+  }
+
+  const fileItem = (file: File): FolderItem => ({ name: file.name, getFile: async () => file });
+  const folderItems = (folder: Folder): FolderItem[] => [
+    ...Array.from(folder.folders.values(), child => ({ name: child.name, list: async () => folderItems(child) })),
+    ...folder.files.map(fileItem),
+  ];
+
+  return walkItems(folderItems(root), options);
+}
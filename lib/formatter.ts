@@ -2,20 +2,197 @@
  * Formatter module for converting TreeNode structure to text format
  */
 
-import { TreeNode, FormatOptions } from './types';
+import {
+  TreeNode,
+  FormatOptions,
+  TreeNodeJson,
+  TreeCommandJsonEntry,
+  ChangeStatus,
+  ConnectorGlyphs,
+  GlyphSetName,
+  NodeSizes,
+} from './types';
+
+/**
+ * A formatted line with the description to append as a comment
+ */
+interface FormattedLine {
+  text: string;
+  description?: string;
+}
+
+/**
+ * Markers written before changed entries, as in a diff
+ */
+const STATUS_MARKERS: Record<ChangeStatus, string> = {
+  added: '+',
+  modified: '~',
+  deleted: '-',
+  renamed: '>',
+};
+
+/**
+ * Connector glyphs of the built-in sets, all of which the parser reads back
+ */
+export const GLYPH_SETS: Record<GlyphSetName, ConnectorGlyphs> = {
+  unicode: { branch: '├', last: '└', vertical: '│', horizontal: '─' },
+  ascii: { branch: '|', last: '`', vertical: '|', horizontal: '-' },
+  rounded: { branch: '├', last: '╰', vertical: '│', horizontal: '─' },
+  heavy: { branch: '┣', last: '┗', vertical: '┃', horizontal: '━' },
+  double: { branch: '╠', last: '╚', vertical: '║', horizontal: '═' },
+  windows: { branch: '+', last: '\\', vertical: '|', horizontal: '-' },
+};
+
+/**
+ * Narrowest indent that leaves room for a connector and the space after it
+ */
+const MIN_INDENT_WIDTH = 3;
+
+/**
+ * Joins formatted lines, appending descriptions as # comments aligned to one column
+ */
+function joinWithComments(lines: FormattedLine[]): string {
+  const annotated = lines.filter(line => line.description);
+  const column = Math.max(0, ...annotated.map(line => line.text.length)) + 2;
+  
+  return lines
+    .map(line => (line.description ? `${line.text.padEnd(column)}# ${line.description}` : line.text))
+    .join('\n');
+}
+
+/**
+ * Formats a byte count the way `tree -h` and `du -h` print it (123, 4.0K, 12M)
+ */
+export function formatSize(bytes: number): string {
+  const units = ['K', 'M', 'G', 'T', 'P', 'E'];
+  if (bytes < 1024) {
+    return String(bytes);
+  }
+  
+  let value = bytes;
+  let unit = -1;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)}${units[unit]}`;
+}
+
+/**
+ * Sizes in bytes of every node in a tree, with folder sizes rolled up from their contents
+ * Built in one pass so each row can read its size without walking its subtree.
+ * A folder is at least as large as everything listed inside it, so its own
+ * size (such as a `du` total) is kept when it is larger.
+ */
+export function computeNodeSizes(nodes: TreeNode[]): NodeSizes {
+  const sizes: NodeSizes = new Map();
+  
+  const visit = (node: TreeNode): number | undefined => {
+    let size = node.size;
+    if (node.type === 'folder' && node.children) {
+      const contents = node.children.map(visit).filter((childSize): childSize is number => childSize !== undefined);
+      if (contents.length > 0) {
+        size = Math.max(node.size ?? 0, contents.reduce((total, childSize) => total + childSize, 0));
+      }
+    }
+    sizes.set(node, size);
+    return size;
+  };
+  
+  nodes.forEach(visit);
+  return sizes;
+}
+
+/**
+ * Size of a single node in bytes, with folder sizes rolled up from their contents
+ * Formatting a whole tree should use computeNodeSizes once instead.
+ */
+export function getNodeSize(node: TreeNode): number | undefined {
+  return computeNodeSizes([node]).get(node);
+}
+
+/**
+ * Whether any node in the tree carries size, date or mode metadata
+ */
+export function hasMetadata(nodes: TreeNode[]): boolean {
+  return nodes.some(
+    node =>
+      node.size !== undefined ||
+      node.modified !== undefined ||
+      node.mode !== undefined ||
+      (node.children !== undefined && hasMetadata(node.children))
+  );
+}
+
+/**
+ * Whether any node in the tree carries a git change status
+ */
+export function hasChanges(nodes: TreeNode[]): boolean {
+  return nodes.some(node => node.status !== undefined || (node.children !== undefined && hasChanges(node.children)));
+}
+
+/**
+ * Writes a node's metadata as the `[mode size date]  ` prefix used by `tree -p -h -D`
+ */
+function formatMetadataPrefix(node: TreeNode, sizes: NodeSizes): string {
+  const size = sizes.get(node);
+  const columns = [node.mode, size !== undefined ? formatSize(size) : undefined, node.modified].filter(Boolean);
+  return columns.length > 0 ? `[${columns.join(' ')}]  ` : '';
+}
+
+/**
+ * Writes a node's name as it appears in text trees
+ * Folders get a trailing slash and symlinks their `-> target`.
+ */
+function formatNodeName(node: TreeNode): string {
+  if (node.type === 'symlink') {
+    return node.target ? `${node.name} -> ${node.target}` : node.name;
+  }
+  return node.type === 'folder' ? `${node.name}/` : node.name;
+}
+
+/**
+ * Writes a node as it appears on a line of a text tree: change marker,
+ * metadata, name, and where a renamed entry was moved from
+ * Markdown wraps the marker in a code span, since a bare `+` or `-` after a
+ * list bullet reads as a nested list.
+ */
+function formatEntry(
+  node: TreeNode,
+  sizes: NodeSizes,
+  includeMetadata: boolean,
+  includeStatus: boolean,
+  codeMarker: boolean = false
+): string {
+  const symbol = includeStatus && node.status ? STATUS_MARKERS[node.status] : '';
+  const marker = symbol ? (codeMarker ? `\`${symbol}\` ` : `${symbol} `) : '';
+  const metadata = includeMetadata ? formatMetadataPrefix(node, sizes) : '';
+  const origin = includeStatus && node.renamedFrom ? ` (from ${node.renamedFrom})` : '';
+  return `${marker}${metadata}${formatNodeName(node)}${origin}`;
+}
 
 /**
  * Formats tree nodes to markdown format
- * This format is widely compatible with email clients and word processors
+ * This format renders as nested lists in Markdown editors; for email clients
+ * and word processors, copy it as HTML so the indentation survives
  */
-function formatAsMarkdown(nodes: TreeNode[], indent: string = '  '): string {
-  const lines: string[] = [];
+function formatAsMarkdown(
+  nodes: TreeNode[],
+  indent: string = '  ',
+  includeMetadata: boolean = true,
+  includeStatus: boolean = true
+): string {
+  const lines: FormattedLine[] = [];
+  const sizes = computeNodeSizes(nodes);
   
   function traverse(node: TreeNode, currentIndent: string) {
     // Add the node with proper indentation
     const prefix = currentIndent ? `${currentIndent}- ` : '- ';
-    const suffix = node.type === 'folder' ? '/' : '';
-    lines.push(`${prefix}${node.name}${suffix}`);
+    const checkbox = node.checked === undefined ? '' : node.checked ? '[x] ' : '[ ] ';
+    lines.push({
+      text: `${prefix}${checkbox}${formatEntry(node, sizes, includeMetadata, includeStatus, true)}`,
+      description: node.description,
+    });
     
     // Recursively process children if folder is expanded or if we're preserving all structure
     if (node.children && node.children.length > 0) {
@@ -30,26 +207,36 @@ function formatAsMarkdown(nodes: TreeNode[], indent: string = '  '): string {
     traverse(node, '');
   }
   
-  return lines.join('\n');
+  return joinWithComments(lines);
 }
 
 /**
  * Formats tree nodes to ASCII format with box-drawing characters
  * This format provides a visual tree structure
  */
-function formatAsAscii(nodes: TreeNode[]): string {
-  const lines: string[] = [];
+function formatAsAscii(
+  nodes: TreeNode[],
+  includeMetadata: boolean = true,
+  includeStatus: boolean = true,
+  glyphs: ConnectorGlyphs = GLYPH_SETS.unicode,
+  indentWidth: number = 4
+): string {
+  const lines: FormattedLine[] = [];
+  const sizes = computeNodeSizes(nodes);
+  const format = (node: TreeNode) => formatEntry(node, sizes, includeMetadata, includeStatus);
+  const horizontal = glyphs.horizontal.repeat(indentWidth - 2);
+  const guide = glyphs.vertical.padEnd(indentWidth);
+  const blank = ' '.repeat(indentWidth);
   
   function traverse(node: TreeNode, prefix: string, isLast: boolean) {
     // Determine the connector character
-    const connector = isLast ? '└── ' : '├── ';
-    const suffix = node.type === 'folder' ? '/' : '';
+    const connector = `${isLast ? glyphs.last : glyphs.branch}${horizontal} `;
     
-    lines.push(`${prefix}${connector}${node.name}${suffix}`);
+    lines.push({ text: `${prefix}${connector}${format(node)}`, description: node.description });
     
     // Process children if they exist
     if (node.children && node.children.length > 0) {
-      const childPrefix = prefix + (isLast ? '    ' : '│   ');
+      const childPrefix = prefix + (isLast ? blank : guide);
       
       for (let i = 0; i < node.children.length; i++) {
         const child = node.children[i];
@@ -66,8 +253,7 @@ function formatAsAscii(nodes: TreeNode[]): string {
     
     if (i === 0 && nodes.length === 1) {
       // Single root node - no prefix
-      const suffix = node.type === 'folder' ? '/' : '';
-      lines.push(`${node.name}${suffix}`);
+      lines.push({ text: format(node), description: node.description });
       
       if (node.children && node.children.length > 0) {
         for (let j = 0; j < node.children.length; j++) {
@@ -82,6 +268,503 @@ function formatAsAscii(nodes: TreeNode[]): string {
     }
   }
   
+  return joinWithComments(lines);
+}
+
+/**
+ * Formats tree nodes the way Windows `tree /F /A` prints them
+ * Folders are drawn with connectors and no trailing slash, after the files,
+ * which are listed without one. Like `tree /F`, no metadata or change markers
+ * are written.
+ */
+function formatAsWindowsTree(nodes: TreeNode[], indentWidth: number = 4): string {
+  const glyphs = GLYPH_SETS.windows;
+  const lines: FormattedLine[] = [];
+  const horizontal = glyphs.horizontal.repeat(indentWidth - 1);
+  const guide = glyphs.vertical.padEnd(indentWidth);
+  const blank = ' '.repeat(indentWidth);
+  
+  function listContents(children: TreeNode[], prefix: string) {
+    const files = children.filter(child => child.type !== 'folder');
+    const folders = children.filter(child => child.type === 'folder');
+    
+    // Files carry the guide down to the folders listed after them
+    const filePrefix = prefix + (folders.length > 0 ? guide : blank);
+    for (const file of files) {
+      lines.push({ text: `${filePrefix}${file.name}`, description: file.description });
+    }
+    if (files.length > 0 && folders.length > 0) {
+      lines.push({ text: filePrefix.trimEnd() });
+    }
+    
+    folders.forEach((folder, index) => {
+      const isLast = index === folders.length - 1;
+      lines.push({
+        text: `${prefix}${isLast ? glyphs.last : glyphs.branch}${horizontal}${folder.name}`,
+        description: folder.description,
+      });
+      listContents(folder.children ?? [], prefix + (isLast ? blank : guide));
+    });
+  }
+  
+  // The root line names the folder being listed
+  if (nodes.length === 1 && nodes[0].type === 'folder') {
+    lines.push({ text: nodes[0].name, description: nodes[0].description });
+    listContents(nodes[0].children ?? [], '');
+  } else {
+    lines.push({ text: '.' });
+    listContents(nodes, '');
+  }
+  
+  return joinWithComments(lines);
+}
+
+/**
+ * Escapes text for HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Monospace fonts found on Windows, macOS and Linux, in that order
+ */
+const HTML_MONOSPACE_FONTS = "Consolas, Menlo, 'DejaVu Sans Mono', 'Courier New', monospace";
+
+/**
+ * Wraps formatted text in a monospace <pre> block
+ * Email clients and word processors drop stylesheets, so every style is inline.
+ */
+export function formatTextAsHtml(text: string): string {
+  return `<pre style="font-family: ${HTML_MONOSPACE_FONTS}; font-size: 13px; line-height: 1.4; white-space: pre; margin: 0;">${escapeHtml(text)}</pre>`;
+}
+
+/**
+ * Formats tree nodes as a nested HTML list with folder and file icons
+ * Lists keep their nesting when pasted into email, Word or Google Docs, where
+ * proportional fonts would misalign a text tree.
+ */
+export function formatTreeToHtmlList(
+  nodes: TreeNode[],
+  options: Pick<FormatOptions, 'includeMetadata' | 'includeStatus'> = {}
+): string {
+  const { includeMetadata = true, includeStatus = true } = options;
+  const sizes = computeNodeSizes(nodes);
+  
+  function formatList(items: TreeNode[], isRoot: boolean): string {
+    const padding = isRoot ? 0 : 20;
+    const entries = items.map(node => {
+      const icon = node.type === 'folder' ? '📁' : node.type === 'symlink' ? '🔗' : '📄';
+      const label = escapeHtml(formatEntry(node, sizes, includeMetadata, includeStatus));
+      const name = node.type === 'folder' ? `<strong>${label}</strong>` : label;
+      const description = node.description
+        ? ` <span style="color: #64748b; font-style: italic;"># ${escapeHtml(node.description)}</span>`
+        : '';
+      const children = node.children && node.children.length > 0 ? formatList(node.children, false) : '';
+      return `<li style="margin: 2px 0;">${icon} <span style="font-family: ${HTML_MONOSPACE_FONTS};">${name}</span>${description}${children}</li>`;
+    });
+    return `<ul style="list-style: none; padding-left: ${padding}px; margin: 0;">${entries.join('')}</ul>`;
+  }
+  
+  return formatList(nodes, true);
+}
+
+/**
+ * Formats tree nodes as JSON in the native TreeNodeJson schema
+ * The output can be parsed back with parseDirectoryStructure
+ */
+function formatAsJson(nodes: TreeNode[], includeMetadata: boolean = true, includeStatus: boolean = true): string {
+  const sizes = computeNodeSizes(nodes);
+  
+  function toJson(node: TreeNode): TreeNodeJson {
+    const json: TreeNodeJson = { name: node.name, type: node.type };
+    if (node.type === 'symlink' && node.target) {
+      json.target = node.target;
+    }
+    if (node.description) {
+      json.description = node.description;
+    }
+    if (includeMetadata) {
+      json.size = sizes.get(node);
+      json.modified = node.modified;
+      json.mode = node.mode;
+    }
+    if (includeStatus) {
+      json.status = node.status;
+      json.renamedFrom = node.renamedFrom;
+    }
+    if (node.type === 'folder') {
+      json.children = (node.children ?? []).map(toJson);
+    }
+    return json;
+  }
+  
+  return JSON.stringify(nodes.map(toJson), null, 2);
+}
+
+/**
+ * Formats tree nodes as JSON compatible with `tree -J`
+ * Root nodes are wrapped in a `.` directory and followed by the report entry
+ */
+function formatAsTreeCommandJson(nodes: TreeNode[], includeMetadata: boolean = true): string {
+  const report = { directories: 0, files: 0 };
+  const sizes = computeNodeSizes(nodes);
+  
+  // tree -J lists mode, size and time before the contents
+  function toEntry(node: TreeNode): TreeCommandJsonEntry {
+    const metadata = includeMetadata
+      ? { prot: node.mode, size: sizes.get(node), time: node.modified }
+      : {};
+    
+    if (node.type === 'folder') {
+      report.directories++;
+      return {
+        type: 'directory',
+        name: node.name,
+        ...metadata,
+        contents: (node.children ?? []).map(toEntry),
+      };
+    }
+    report.files++;
+    if (node.type === 'symlink') {
+      return { type: 'link', name: node.name, target: node.target, ...metadata };
+    }
+    return { type: 'file', name: node.name, ...metadata };
+  }
+  
+  const entries: TreeCommandJsonEntry[] = [
+    { type: 'directory', name: '.', contents: nodes.map(toEntry) },
+    { type: 'report', ...report },
+  ];
+  
+  return JSON.stringify(entries, null, 2);
+}
+
+/**
+ * Quotes a YAML key when a plain scalar would be misread
+ */
+function formatYamlKey(name: string): string {
+  const needsQuotes =
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(name) ||
+    /\s$/.test(name) ||
+    /:(\s|$)|\s#/.test(name) ||
+    /^(?:null|true|false|yes|no|on|off|~|[-+]?\d[\d._]*(?:e[-+]?\d+)?)$/i.test(name);
+  
+  return needsQuotes ? JSON.stringify(name) : name;
+}
+
+/**
+ * Formats tree nodes as a nested YAML mapping
+ * Folders hold a mapping ({} when empty) and files are keys without a value
+ */
+function formatAsYaml(nodes: TreeNode[], indent: string = '  '): string {
+  const lines: string[] = [];
+  
+  function traverse(node: TreeNode, currentIndent: string) {
+    const key = formatYamlKey(node.type === 'symlink' ? formatNodeName(node) : node.name);
+    
+    if (node.type !== 'folder') {
+      lines.push(`${currentIndent}${key}:`);
+      return;
+    }
+    
+    if (!node.children || node.children.length === 0) {
+      lines.push(`${currentIndent}${key}: {}`);
+      return;
+    }
+    
+    lines.push(`${currentIndent}${key}:`);
+    for (const child of node.children) {
+      traverse(child, currentIndent + indent);
+    }
+  }
+  
+  for (const node of nodes) {
+    traverse(node, '');
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * A node with its path from the root, as listed in flat exports
+ */
+interface PathRow {
+  node: TreeNode;
+  path: string;
+  depth: number;
+}
+
+/**
+ * Lists every node with its relative path, depth first in tree order
+ */
+function collectPaths(nodes: TreeNode[], separator: string, filesOnly: boolean): PathRow[] {
+  const rows: PathRow[] = [];
+  
+  function traverse(node: TreeNode, parentPath: string, depth: number) {
+    const path = parentPath ? `${parentPath}${separator}${node.name}` : node.name;
+    if (node.type !== 'folder' || !filesOnly) {
+      rows.push({ node, path, depth });
+    }
+    for (const child of node.children ?? []) {
+      traverse(child, path, depth + 1);
+    }
+  }
+  
+  for (const node of nodes) {
+    traverse(node, '', 0);
+  }
+  return rows;
+}
+
+/**
+ * Formats tree nodes as one relative path per line, as `find` prints them
+ * Folders end with the separator so empty ones survive a round trip.
+ */
+function formatAsPathList(nodes: TreeNode[], separator: string, filesOnly: boolean): string {
+  return collectPaths(nodes, separator, filesOnly)
+    .map(({ node, path }) => (node.type === 'folder' ? `${path}${separator}` : path))
+    .join('\n');
+}
+
+/**
+ * Quotes a table cell when it holds the delimiter, a quote or a line break
+ */
+function formatTableCell(value: string | number | undefined, delimiter: string): string {
+  const text = value === undefined ? '' : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats tree nodes as a CSV or TSV table with a row per entry
+ * Metadata, change and description columns are only added when some entry
+ * has a value for them; sizes are written in bytes for spreadsheets.
+ */
+function formatAsTable(
+  nodes: TreeNode[],
+  delimiter: string,
+  separator: string,
+  filesOnly: boolean,
+  includeMetadata: boolean = true,
+  includeStatus: boolean = true
+): string {
+  const rows = collectPaths(nodes, separator, filesOnly);
+  const entries = rows.map(row => row.node);
+  const extension = (node: TreeNode) => {
+    const dot = node.name.lastIndexOf('.');
+    return node.type !== 'folder' && dot > 0 ? node.name.slice(dot + 1) : '';
+  };
+  
+  const columns: [string, (row: PathRow) => string | number | undefined][] = [
+    ['path', row => row.path],
+    ['name', row => row.node.name],
+    ['type', row => row.node.type],
+    ['depth', row => row.depth],
+    ['extension', row => extension(row.node)],
+  ];
+  if (includeMetadata && hasMetadata(nodes)) {
+    const sizes = computeNodeSizes(nodes);
+    columns.push(
+      ['size', row => sizes.get(row.node)],
+      ['modified', row => row.node.modified],
+      ['mode', row => row.node.mode]
+    );
+  }
+  if (entries.some(node => node.type === 'symlink')) {
+    columns.push(['target', row => row.node.target]);
+  }
+  if (includeStatus && hasChanges(nodes)) {
+    columns.push(['status', row => row.node.status], ['renamed_from', row => row.node.renamedFrom]);
+  }
+  if (entries.some(node => node.description)) {
+    columns.push(['description', row => row.node.description]);
+  }
+  
+  const lines = [
+    columns.map(([header]) => header).join(delimiter),
+    ...rows.map(row => columns.map(([, value]) => formatTableCell(value(row), delimiter)).join(delimiter)),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * A node as drawn in a diagram, with a generated ID safe in every syntax
+ */
+interface DiagramNode {
+  node: TreeNode;
+  id: string;
+  parentId: string | null;
+  depth: number;
+}
+
+/**
+ * Fill and stroke colours of folders and files in diagrams, matching the tree view
+ */
+const DIAGRAM_COLORS = {
+  folder: { fill: '#fef3c7', stroke: '#d97706' },
+  file: { fill: '#f1f5f9', stroke: '#64748b' },
+};
+
+/**
+ * Lists every node depth first with IDs n0, n1, ... and its parent's ID
+ * Node IDs from the tree are paths, which no diagram syntax accepts unquoted.
+ */
+function collectDiagramNodes(nodes: TreeNode[]): DiagramNode[] {
+  const result: DiagramNode[] = [];
+  
+  function traverse(node: TreeNode, parentId: string | null, depth: number) {
+    const id = `n${result.length}`;
+    result.push({ node, id, parentId, depth });
+    for (const child of node.children ?? []) {
+      traverse(child, id, depth + 1);
+    }
+  }
+  
+  for (const node of nodes) {
+    traverse(node, null, 0);
+  }
+  return result;
+}
+
+/**
+ * Escapes a label for a quoted Mermaid string, using Mermaid's entity codes
+ */
+function escapeMermaid(label: string): string {
+  return label
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/`/g, '#96;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+}
+
+/**
+ * Formats tree nodes as a left-to-right Mermaid flowchart
+ * Folders are drawn as boxes and files with rounded corners, each in its own colour.
+ */
+function formatAsMermaidFlowchart(nodes: TreeNode[]): string {
+  const lines = ['flowchart LR'];
+  const entries = collectDiagramNodes(nodes);
+  
+  for (const { node, id } of entries) {
+    const label = `"${escapeMermaid(formatNodeName(node))}"`;
+    lines.push(node.type === 'folder' ? `  ${id}[${label}]:::folder` : `  ${id}(${label}):::file`);
+  }
+  for (const { id, parentId } of entries) {
+    if (parentId) {
+      lines.push(`  ${parentId} --> ${id}`);
+    }
+  }
+  
+  lines.push(
+    `  classDef folder fill:${DIAGRAM_COLORS.folder.fill},stroke:${DIAGRAM_COLORS.folder.stroke}`,
+    `  classDef file fill:${DIAGRAM_COLORS.file.fill},stroke:${DIAGRAM_COLORS.file.stroke}`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Formats tree nodes as a Mermaid mindmap
+ * A mindmap has a single root, so several root nodes are gathered under `.`.
+ */
+function formatAsMermaidMindmap(nodes: TreeNode[]): string {
+  const lines = ['mindmap'];
+  const hasSingleRoot = nodes.length === 1;
+  
+  if (!hasSingleRoot) {
+    lines.push('  root((.))');
+  }
+  for (const { node, id, depth } of collectDiagramNodes(nodes)) {
+    const indent = '  '.repeat(depth + (hasSingleRoot ? 1 : 2));
+    const label = `"${escapeMermaid(formatNodeName(node))}"`;
+    lines.push(node.type === 'folder' ? `${indent}${id}[${label}]` : `${indent}${id}(${label})`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Escapes a label for a quoted Graphviz string
+ */
+function escapeDot(label: string): string {
+  return label.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats tree nodes as a left-to-right Graphviz digraph
+ * Folders use the folder shape and files the note shape.
+ */
+function formatAsDot(nodes: TreeNode[]): string {
+  const lines = [
+    'digraph tree {',
+    '  rankdir=LR;',
+    '  node [fontname="Helvetica", fontsize=11, style=filled];',
+  ];
+  const entries = collectDiagramNodes(nodes);
+  
+  for (const { node, id } of entries) {
+    const kind = node.type === 'folder' ? 'folder' : 'file';
+    const shape = node.type === 'folder' ? 'folder' : 'note';
+    lines.push(
+      `  ${id} [label="${escapeDot(formatNodeName(node))}", shape=${shape}, fillcolor="${DIAGRAM_COLORS[kind].fill}", color="${DIAGRAM_COLORS[kind].stroke}"];`
+    );
+  }
+  for (const { id, parentId } of entries) {
+    if (parentId) {
+      lines.push(`  ${parentId} -> ${id};`);
+    }
+  }
+  
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Escapes PlantUML creole markup (**bold**, __underline__, <tags> and so on) with `~`
+ */
+function escapeCreole(label: string): string {
+  return label
+    .replace(/~/g, '~~')
+    .replace(/(\*\*|\/\/|""|--|__|\|)/g, '~$1')
+    .replace(/</g, '~<');
+}
+
+/**
+ * Formats tree nodes as a PlantUML work breakdown structure
+ * A WBS has a single root, so several root nodes are gathered under `.`.
+ */
+function formatAsPlantUmlWbs(nodes: TreeNode[]): string {
+  const lines = ['@startwbs'];
+  const hasSingleRoot = nodes.length === 1;
+  
+  if (!hasSingleRoot) {
+    lines.push('* .');
+  }
+  for (const { node, depth } of collectDiagramNodes(nodes)) {
+    const stars = '*'.repeat(depth + (hasSingleRoot ? 1 : 2));
+    const color = DIAGRAM_COLORS[node.type === 'folder' ? 'folder' : 'file'].fill;
+    lines.push(`${stars}[${color}] ${escapeCreole(formatNodeName(node))}`);
+  }
+  
+  lines.push('@endwbs');
+  return lines.join('\n');
+}
+
+/**
+ * Formats tree nodes as a PlantUML Salt tree widget with folder and file icons
+ */
+function formatAsPlantUmlSalt(nodes: TreeNode[]): string {
+  const lines = ['@startsalt', '{', '{T'];
+  
+  for (const { node, depth } of collectDiagramNodes(nodes)) {
+    const icon = node.type === 'folder' ? '<&folder>' : '<&file>';
+    lines.push(`${'+'.repeat(depth + 1)} ${icon} ${escapeCreole(node.name)}`);
+  }
+  
+  lines.push('}', '}', '@endsalt');
   return lines.join('\n');
 }
 
@@ -90,7 +773,7 @@ function formatAsAscii(nodes: TreeNode[]): string {
  * 
  * @param nodes - Array of root TreeNode objects
  * @param options - Formatting options
- * @returns Formatted text string compatible with email clients and word processors
+ * @returns Formatted text string
  */
 export function formatTreeToText(
   nodes: TreeNode[],
@@ -104,13 +787,53 @@ export function formatTreeToText(
   const {
     style = 'markdown',
     indent = '  ',
+    includeMetadata = true,
+    includeStatus = true,
+    glyphs = 'unicode',
+    indentWidth = 4,
+    pathSeparator = 'posix',
+    filesOnly = false,
   } = options;
+  const width = Math.max(MIN_INDENT_WIDTH, Math.floor(indentWidth));
+  const separator = pathSeparator === 'windows' ? '\\' : '/';
   
-  // Format based on style
-  if (style === 'ascii') {
-    return formatAsAscii(nodes);
-  } else {
-    return formatAsMarkdown(nodes, indent);
+  // Format based on style (YAML keys have nowhere to hold metadata, nor tree -J entries a change status)
+  switch (style) {
+    case 'ascii':
+      if (glyphs === 'windows') {
+        return formatAsWindowsTree(nodes, width);
+      }
+      return formatAsAscii(
+        nodes,
+        includeMetadata,
+        includeStatus,
+        typeof glyphs === 'string' ? GLYPH_SETS[glyphs] : glyphs,
+        width
+      );
+    case 'json':
+      return formatAsJson(nodes, includeMetadata, includeStatus);
+    case 'tree-json':
+      return formatAsTreeCommandJson(nodes, includeMetadata);
+    case 'yaml':
+      return formatAsYaml(nodes, indent);
+    case 'paths':
+      return formatAsPathList(nodes, separator, filesOnly);
+    case 'csv':
+      return formatAsTable(nodes, ',', separator, filesOnly, includeMetadata, includeStatus);
+    case 'tsv':
+      return formatAsTable(nodes, '\t', separator, filesOnly, includeMetadata, includeStatus);
+    case 'mermaid':
+      return formatAsMermaidFlowchart(nodes);
+    case 'mermaid-mindmap':
+      return formatAsMermaidMindmap(nodes);
+    case 'dot':
+      return formatAsDot(nodes);
+    case 'plantuml':
+      return formatAsPlantUmlWbs(nodes);
+    case 'plantuml-salt':
+      return formatAsPlantUmlSalt(nodes);
+    default:
+      return formatAsMarkdown(nodes, indent, includeMetadata, includeStatus);
   }
 }
 
@@ -0,0 +1,51 @@
+import { TreeNode } from './types';
+
+/**
+ * Builds a stable node ID from its parent's ID and its name
+ * IDs are URL-safe paths (`src/components/Button.tsx`), so the same input
+ * always yields the same IDs. When the path is already taken, by a duplicate
+ * sibling or by a renamed node that kept its original ID, a `~2`, `~3`, ...
+ * suffix is added. The chosen ID is recorded in `usedIds`.
+ */
+export function createNodeId(parentId: string | null, name: string, usedIds: Set<string>): string {
+  const base = parentId === null ? encodeURIComponent(name) : `${parentId}/${encodeURIComponent(name)}`;
+  
+  let id = base;
+  for (let suffix = 2; usedIds.has(id); suffix++) {
+    id = `${base}~${suffix}`;
+  }
+  
+  usedIds.add(id);
+  return id;
+}
+
+/**
+ * Collects the IDs of every node in a tree
+ */
+export function collectNodeIds(nodes: TreeNode[], ids: Set<string> = new Set()): Set<string> {
+  for (const node of nodes) {
+    ids.add(node.id);
+    if (node.children) {
+      collectNodeIds(node.children, ids);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Gives every node in a tree an ID derived from its path, in document order
+ */
+export function assignNodeIds(
+  nodes: TreeNode[],
+  parentId: string | null = null,
+  usedIds: Set<string> = new Set()
+): TreeNode[] {
+  return nodes.map((node) => {
+    const id = createNodeId(parentId, node.name, usedIds);
+    return {
+      ...node,
+      id,
+      children: node.children ? assignNodeIds(node.children, id, usedIds) : undefined,
+    };
+  });
+}
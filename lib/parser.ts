@@ -2,173 +2,663 @@
  * Parser module for converting text-based directory structures to TreeNode format
  */
 
-import { TreeNode, ParseResult, InputFormat } from './types';
+import {
+  TreeNode,
+  ParseResult,
+  ParseDiagnostic,
+  ParserFunction,
+  InputFormat,
+  NodeMetadata,
+  FormatDetection,
+  TreeCommandJsonEntry,
+  ExtractedTree,
+  PathEntry,
+  ChangeStatus,
+} from './types';
+import { assignNodeIds } from './ids';
 
 /**
- * Detects the format of the input text
+ * Matches a `tree` connector and the name that follows it: Unicode (├──, └──),
+ * rounded (╰──), heavy (┣━━), double-line (╠══) or `--charset=ascii` (|--, `--)
+ * Group 1 is the indentation prefix, group 2 the node text
  */
-function detectFormat(input: string): InputFormat {
-  const asciiChars = ['├', '└', '│', '─'];
-  const hasAsciiChars = asciiChars.some(char => input.includes(char));
+const ASCII_CONNECTOR_PATTERN = /^([\s│|┃║]*?)(?:[├└╰]─+|[┣┗]━+|[╠╚]═+|[|`]-+)\s*(.*)$/;
+
+/**
+ * Matches the report line `tree` prints at the end, e.g. "12 directories, 40 files"
+ */
+const TREE_SUMMARY_PATTERN = /^\d+ director(?:y|ies)(?:, \d+ files?)?$/;
+
+/**
+ * File type indicators appended by `tree -F` (executable, symlink, FIFO, socket)
+ * They are only stripped from output that marks folders with a slash, as -F
+ * does, so names such as `notes=` survive elsewhere.
+ */
+const TREE_TYPE_INDICATORS = ['*', '@', '|', '='];
+
+/**
+ * Bracketed metadata printed before names by `tree -p -s -h -D`
+ * Format: `[-rw-r--r-- 1.2K Jan 15 10:30]  name`
+ */
+const METADATA_PREFIX_PATTERN = /^\[([^\]]+)\]\s+/;
+
+/**
+ * Permission string printed by `tree -p` and `ls -l`
+ */
+const MODE_PATTERN = /^[-dlcbps][-rwxsStT]{9}[.+@]?$/;
+
+/**
+ * Size printed by `tree -s` (bytes), `tree -h`/`du -h` (4.0K) or `tree --si` (4.1k)
+ */
+const SIZE_PATTERN = /^(\d+(?:[.,]\d+)?)([KMGTPE])?$/i;
+
+/**
+ * First token of a `tree -D` date: a month name or an ISO date
+ */
+const DATE_START_PATTERN = /^(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec|\d{4}-\d{2}-\d{2})/i;
+
+/**
+ * A `du` line: size, whitespace, path
+ */
+const DU_LINE_PATTERN = /^(\d+(?:[.,]\d+)?[KMGTPE]?)(\s+)(\S.*)$/i;
+
+/**
+ * Size suffixes in order of their power of 1024
+ */
+const SIZE_UNITS = 'KMGTPE';
+
+/**
+ * Symlink notation used by `tree` and `ls -l`: `name -> target`
+ */
+const LINK_TARGET_PATTERN = /^(.*?\S)\s+->\s+(\S.*)$/;
+
+/**
+ * Matches a Windows `tree /F` folder connector (├───, └─── or /A style +---, \---)
+ * Group 1 is the indentation prefix, group 2 the folder name
+ */
+const WINDOWS_TREE_CONNECTOR_PATTERN = /^([\s│|]*?)(?:[├└]─{2,}|[+\\]-{2,})([^\s─-].*)$/;
+
+/**
+ * Header and footer lines `tree` prints on Windows around the listing itself
+ */
+const WINDOWS_TREE_NOISE_PATTERNS = [
+  /^Folder PATH listing/i,
+  /^Volume serial number is/i,
+  /^No subfolders exist/i,
+];
+
+/**
+ * Matches a drive letter prefix such as `C:` or `C:\`
+ */
+const DRIVE_LETTER_PATTERN = /^[A-Za-z]:\\?/;
+
+/**
+ * A `git status --porcelain` line: index status, worktree status, then the path
+ * Renames and copies read `R  old -> new`.
+ */
+const GIT_STATUS_LINE_PATTERN = /^([ MTADRCU?!])([ MTADRCU?!]) (.+)$/;
+
+/**
+ * A `git diff --name-status` line: a status letter (with a similarity score
+ * for renames and copies), then the tab-separated path or paths
+ */
+const GIT_NAME_STATUS_LINE_PATTERN = /^([ACDMRTUXB])(\d*)\t([^\t]+)(?:\t([^\t]+))?$/;
+
+/**
+ * A `git ls-tree` line: mode, object type, object name, size with -l, then a tab and the path
+ */
+const GIT_LS_TREE_LINE_PATTERN = /^(\d{6}) (blob|tree|commit) ([0-9a-f]{7,64})(?: +(\d+|-))?\t(.+)$/;
+
+/**
+ * Change statuses for the letters git prints; untracked (?) files count as added
+ * and copies as new files
+ */
+const GIT_STATUS_CODES: Record<string, ChangeStatus> = {
+  A: 'added',
+  '?': 'added',
+  C: 'added',
+  M: 'modified',
+  T: 'modified',
+  U: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+};
+
+/**
+ * Permission strings for the file modes git records
+ */
+const GIT_FILE_MODES: Record<string, string> = {
+  '100644': '-rw-r--r--',
+  '100755': '-rwxr-xr-x',
+  '120000': 'lrwxrwxrwx',
+};
+
+/**
+ * Matches a line that is only a comment: # or a markdown heading, optionally after tree guides
+ */
+const COMMENT_LINE_PATTERN = /^[\s│|┃║]*#+(?:\s|$)/;
+
+/**
+ * Matches the tree guides, list markers and checkboxes that can precede a name
+ */
+const ENTRY_PREFIX_PATTERN = /^[\s│|┃║├└╰┣┗╠╚─━═`+\\*-]*(?:\d+[.)]\s+)?(?:\[[ xX]\]\s+)?/;
+
+/**
+ * Matches a markdown list item: -, * or + bullets or 1. / 1) numbering, with an optional task checkbox
+ * Group 1 is the indentation, group 2 the checkbox state, group 3 the item text
+ */
+const MARKDOWN_LIST_ITEM_PATTERN = /^(\s*)(?:-\s*|[*+]\s+|\d+[.)]\s+)(?:\[([ xX])\]\s+)?(.+)$/;
+
+/**
+ * Matches a YAML mapping entry: a plain or quoted key, a colon, and an optional value
+ * Group 1 is the key, group 2 the inline value
+ */
+const YAML_KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"-].*?|-[^\s#].*?)\s*:(?:\s+(.*))?$/;
+
+/**
+ * ID given to nodes while parsing; path-based IDs are assigned once the tree is complete
+ */
+const UNASSIGNED_ID = '';
+
+/**
+ * Works out the indentation unit (in spaces) used by a list
+ * Uses the greatest common divisor of the space indents, falling back to
+ * the smallest indent when the widths are inconsistent.
+ */
+function detectIndentUnit(spaceIndents: number[]): number {
+  const positive = spaceIndents.filter(indent => indent > 0);
+  
+  if (positive.length === 0) {
+    return 2;
+  }
+  
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const divisor = positive.reduce(gcd);
+  
+  if (divisor >= 2) {
+    return divisor;
+  }
+  
+  return Math.max(Math.min(...positive), 2);
+}
+
+/**
+ * Converts a printed size to bytes
+ * Suffixed sizes are powers of 1024; bare numbers are multiplied by `unit`.
+ */
+function parseSize(text: string, unit: number = 1): number | undefined {
+  const match = text.match(SIZE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  
+  const value = parseFloat(match[1].replace(',', '.'));
+  const power = match[2] ? SIZE_UNITS.indexOf(match[2].toUpperCase()) + 1 : 0;
+  return Math.round(value * (power > 0 ? 1024 ** power : unit));
+}
+
+/**
+ * Splits the `[mode size date]` prefix of `tree -p -s -h -D` from an entry
+ * Brackets holding neither a mode, a size nor a date are part of the name.
+ */
+function splitMetadata(text: string): { name: string; metadata: NodeMetadata } {
+  const match = text.match(METADATA_PREFIX_PATTERN);
+  if (!match) {
+    return { name: text, metadata: {} };
+  }
+  
+  const tokens = match[1].trim().split(/\s+/);
+  const metadata: NodeMetadata = {};
+  
+  if (MODE_PATTERN.test(tokens[0])) {
+    metadata.mode = tokens.shift();
+  }
+  
+  // The date runs to the end; user and group (-u -g) may sit before the size
+  const dateIndex = tokens.findIndex(token => DATE_START_PATTERN.test(token));
+  const columns = dateIndex === -1 ? tokens : tokens.slice(0, dateIndex);
+  const size = columns.map(token => parseSize(token)).filter(value => value !== undefined).pop();
+  
+  if (size !== undefined) {
+    metadata.size = size;
+  }
+  if (dateIndex !== -1) {
+    metadata.modified = tokens.slice(dateIndex).join(' ');
+  }
+  
+  if (Object.keys(metadata).length === 0) {
+    return { name: text, metadata };
+  }
+  return { name: text.slice(match[0].length), metadata };
+}
+
+/**
+ * Splits `name -> target` symlink notation into the link name and its target
+ */
+function splitLinkTarget(text: string): { name: string; target?: string } {
+  const match = text.match(LINK_TARGET_PATTERN);
+  return match ? { name: match[1], target: match[2].trim() } : { name: text };
+}
+
+/**
+ * Splits an inline # comment from an entry
+ * A # starts a comment only when whitespace precedes it and a name comes
+ * before it, so names such as C#/ and #notes.md are kept intact.
+ */
+function splitComment(text: string): { name: string; description?: string } {
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] !== '#' || !/\s/.test(text[i - 1])) {
+      continue;
+    }
+    
+    const before = text.substring(0, i);
+    if (before.replace(ENTRY_PREFIX_PATTERN, '').trim()) {
+      const description = text.substring(i).replace(/^#+/, '').trim();
+      return { name: before.trimEnd(), description: description || undefined };
+    }
+  }
+  
+  return { name: text };
+}
+
+/**
+ * Strips markdown formatting from a list item's text
+ * Handles links ([src](./src/)), inline code and bold or italic asterisks,
+ * keeping a trailing slash whether it sits inside or outside the markup.
+ */
+function cleanMarkdownName(text: string): string {
+  let name = text.trim();
+  let trailingSlash = false;
+  
+  // A slash after the closing markup, e.g. `src`/ or **src**/
+  if (/[`*)]\/$/.test(name)) {
+    name = name.slice(0, -1);
+    trailingSlash = true;
+  }
+  
+  let previous: string;
+  do {
+    previous = name;
+    
+    const link = name.match(/^\[([^\]]*)\]\(([^)]*)\)$/);
+    if (link) {
+      const [, label, target] = link;
+      name = (label || target).trim();
+      if (target.endsWith('/') && !name.endsWith('/')) {
+        name += '/';
+      }
+      continue;
+    }
+    
+    name = name
+      .replace(/^`+([^`]+)`+$/, '$1')
+      .replace(/^\*\*(.+)\*\*$/, '$1')
+      .replace(/^\*([^*]+)\*$/, '$1')
+      .trim();
+  } while (name !== previous);
+  
+  return trailingSlash && !name.endsWith('/') ? `${name}/` : name;
+}
+
+/**
+ * Most names one brace pattern may expand to before it is left as written
+ */
+const MAX_BRACE_EXPANSION = 10000;
+
+/**
+ * Expands the body of a `{...}` group: a comma list, a numeric range with
+ * optional zero padding and step (`{01..10..2}`) or a letter range (`{a..e}`)
+ * Returns null when the group is not expandable, as bash does for `{a}`.
+ */
+function expandBraceGroup(body: string): string[] | null {
+  // Split at commas outside nested groups
+  const alternatives: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '{') {
+      depth++;
+    } else if (body[i] === '}') {
+      depth--;
+    } else if (body[i] === ',' && depth === 0) {
+      alternatives.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  alternatives.push(body.slice(start));
+  
+  if (alternatives.length > 1) {
+    return alternatives.flatMap(expandBraces);
+  }
+  
+  const numeric = body.match(/^(-?\d+)\.\.(-?\d+)(?:\.\.(-?\d+))?$/);
+  const letters = body.match(/^([a-zA-Z])\.\.([a-zA-Z])(?:\.\.(-?\d+))?$/);
+  const range = numeric ?? letters;
+  if (!range) {
+    return null;
+  }
   
-  if (hasAsciiChars) {
-    return 'ascii';
+  const from = numeric ? parseInt(range[1], 10) : range[1].charCodeAt(0);
+  const to = numeric ? parseInt(range[2], 10) : range[2].charCodeAt(0);
+  const step = Math.abs(parseInt(range[3] ?? '1', 10)) || 1;
+  if (Math.abs(to - from) / step >= MAX_BRACE_EXPANSION) {
+    return null;
   }
   
-  // Check for markdown-style list format (lines starting with -)
-  const lines = input.trim().split('\n').filter(line => line.trim());
-  const hasMarkdownFormat = lines.some(line => line.trim().startsWith('-'));
+  // A leading zero on either end pads every number to the wider end
+  const isPadded = numeric && (/^-?0\d/.test(range[1]) || /^-?0\d/.test(range[2]));
+  const width = isPadded ? Math.max(range[1].length, range[2].length) : 0;
+  const values: string[] = [];
+  for (let value = from; from <= to ? value <= to : value >= to; value += from <= to ? step : -step) {
+    if (!numeric) {
+      values.push(String.fromCharCode(value));
+    } else {
+      const digits = String(Math.abs(value)).padStart(width - (value < 0 ? 1 : 0), '0');
+      values.push(value < 0 ? `-${digits}` : digits);
+    }
+  }
+  return values;
+}
+
+/**
+ * Expands bash-style brace lists and ranges in a name or path
+ * `src/{api,web}/index.ts` gives two paths and `part{1..3}.md` three names;
+ * text without an expandable group is returned unchanged.
+ */
+function expandBraces(text: string): string[] {
+  let depth = 0;
+  let start = -1;
   
-  if (hasMarkdownFormat) {
-    return 'markdown';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') {
+      if (depth === 0) {
+        start = i;
+      }
+      depth++;
+    } else if (text[i] === '}' && depth > 0) {
+      depth--;
+      if (depth > 0) {
+        continue;
+      }
+      
+      const alternatives = expandBraceGroup(text.slice(start + 1, i));
+      if (!alternatives) {
+        // Not a brace expansion; look for groups nested inside it instead
+        i = start;
+        start = -1;
+        continue;
+      }
+      
+      // Checked before the names are built, so huge products are never made
+      const prefix = text.slice(0, start);
+      const suffixes = expandBraces(text.slice(i + 1));
+      if (alternatives.length * suffixes.length > MAX_BRACE_EXPANSION) {
+        return [text];
+      }
+      return alternatives.flatMap(alternative => suffixes.map(suffix => prefix + alternative + suffix));
+    }
   }
   
-  // If no clear format detected but has content, assume markdown
-  if (lines.length > 0) {
-    return 'markdown';
+  return [text];
+}
+
+/**
+ * Merges two nodes for the same path; folders combine their contents
+ */
+function mergeNodes(first: TreeNode, second: TreeNode): TreeNode {
+  const isFolder = first.type === 'folder' || second.type === 'folder';
+  return {
+    ...second,
+    ...first,
+    type: isFolder ? 'folder' : first.type,
+    children: isFolder ? mergeSiblings([...(first.children ?? []), ...(second.children ?? [])]) : undefined,
+  };
+}
+
+/**
+ * Merges siblings that share a name, keeping the position of the first
+ */
+function mergeSiblings(nodes: TreeNode[]): TreeNode[] {
+  const merged = new Map<string, TreeNode>();
+  for (const node of nodes) {
+    const existing = merged.get(node.name);
+    merged.set(node.name, existing ? mergeNodes(existing, node) : node);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Sets the depth of every node from its position in the tree
+ */
+function setDepths(nodes: TreeNode[], depth: number): void {
+  for (const node of nodes) {
+    node.depth = depth;
+    if (node.children) {
+      setDepths(node.children, depth + 1);
+    }
+  }
+}
+
+/**
+ * Copies a node under an expanded name; a name holding a path such as
+ * `packages/core/src/` becomes the node wrapped in folders for its leading segments
+ */
+function nestExpansion(node: TreeNode, name: string, children: TreeNode[] | undefined): TreeNode {
+  const segments = name.split('/').filter(Boolean);
+  if (segments.length === 0) {
+    return { ...node, name, children };
   }
   
-  return 'unknown';
+  let nested: TreeNode = { ...node, name: segments[segments.length - 1], children };
+  for (const segment of segments.slice(0, -1).reverse()) {
+    nested = { id: UNASSIGNED_ID, name: segment, type: 'folder', depth: 0, isExpanded: true, children: [nested] };
+  }
+  return nested;
 }
 
 /**
- * Generates a unique ID for a tree node
+ * Replaces nodes whose names hold brace patterns with one node per expansion
+ * Each copy gets the original's children. A sibling that ends up with the
+ * same name as an expanded node is merged into it; names without braces,
+ * including paths and duplicates written out by hand, are left alone.
  */
-function generateId(): string {
-  return `node-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+function expandBraceNodes(nodes: TreeNode[]): TreeNode[] {
+  const result: TreeNode[] = [];
+  const byName = new Map<string, { index: number; expanded: boolean }>();
+  
+  for (const node of nodes) {
+    const names = expandBraces(node.name);
+    const expanded = names.length > 1 || names[0] !== node.name;
+    const children = node.children && expandBraceNodes(node.children);
+    
+    for (const name of names) {
+      const copy = expanded ? nestExpansion(node, name, children) : { ...node, name, children };
+      const existing = byName.get(copy.name);
+      
+      if (existing && (existing.expanded || expanded)) {
+        result[existing.index] = mergeNodes(result[existing.index], copy);
+        existing.expanded = true;
+      } else {
+        byName.set(copy.name, { index: result.length, expanded });
+        result.push(copy);
+      }
+    }
+  }
+  
+  return result;
 }
 
 /**
  * Parses markdown format directory structure
  * Format: - folder/ or - file.txt with indentation
+ * Indentation may use tabs or 2, 3 or 4 spaces; the unit is inferred from
+ * the input and each tab counts as one unit. Depth follows the nesting that
+ * is reconstructed, not the raw indentation width. Brace patterns such as
+ * {core,cli}/ and part{1..3}.md expand to one entry each.
  */
 function parseMarkdown(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
   try {
     const lines = input.split('\n');
     const root: TreeNode[] = [];
+    // Holds files as well as folders so entries indented under a file can be reported
     const stack: { node: TreeNode; indent: number }[] = [];
     
+    // List items (-, *, +, 1. with an optional task checkbox) and plain text lines share the same layout
+    const entries = lines.map(line => {
+      if (!line.trim()) {
+        return null;
+      }
+      const match = line.match(MARKDOWN_LIST_ITEM_PATTERN) ?? line.match(/^(\s*)()(.+)$/);
+      return match ? { whitespace: match[1], checkbox: match[2], text: match[3] } : null;
+    });
+    
+    const unit = detectIndentUnit(
+      entries
+        .filter(entry => entry !== null && !entry.whitespace.includes('\t'))
+        .map(entry => entry!.whitespace.length)
+    );
+    
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+      const entry = entries[i];
       
       // Skip empty lines
-      if (!line.trim()) {
+      if (!entry || !entry.text.trim()) {
         continue;
       }
       
-      // Calculate indentation level
-      const match = line.match(/^(\s*)-\s*(.+)$/);
-      if (!match) {
-        // Line doesn't match markdown format, skip or treat as plain text
-        const plainMatch = line.match(/^(\s*)(.+)$/);
-        if (plainMatch && plainMatch[2].trim()) {
-          const indent = plainMatch[1].length;
-          const name = plainMatch[2].trim();
-          const isFolder = name.endsWith('/');
-          
-          const depth = Math.floor(indent / 2);
-          const node: TreeNode = {
-            id: generateId(),
-            name: isFolder ? name.slice(0, -1) : name,
-            type: isFolder ? 'folder' : 'file',
-            depth,
-            isExpanded: true,
-            children: isFolder ? [] : undefined,
-          };
-          
-          // Find parent based on depth
-          while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
-            stack.pop();
-          }
-          
-          if (stack.length === 0) {
-            root.push(node);
-          } else {
-            const parent = stack[stack.length - 1].node;
-            if (parent.children) {
-              parent.children.push(node);
-            }
-          }
-          
-          if (isFolder) {
-            stack.push({ node, indent });
-          }
-        }
+      const { whitespace, checkbox } = entry;
+      const tabs = whitespace.split('\t').length - 1;
+      const spaces = whitespace.length - tabs;
+      const indent = tabs * unit + spaces;
+      const { name: text, description } = splitComment(entry.text);
+      const { name: entryName, metadata } = splitMetadata(text);
+      const link = splitLinkTarget(entryName);
+      const name = cleanMarkdownName(link.name);
+      const isFolder = !link.target && (name.endsWith('/') || !!metadata.mode?.startsWith('d'));
+      
+      if (!name.replace(/\/+$/, '')) {
         continue;
       }
       
-      const indent = match[1].length;
-      const name = match[2].trim();
-      const isFolder = name.endsWith('/');
+      if (tabs > 0 && spaces > 0) {
+        diagnostics.push({
+          line: i + 1,
+          column: 1,
+          severity: 'warning',
+          message: `Indentation mixes tabs and spaces; each tab was read as ${unit} spaces`,
+          fix: 'Indent with either spaces or tabs, not both',
+        });
+      } else if (indent % unit !== 0) {
+        const lower = indent - (indent % unit);
+        diagnostics.push({
+          line: i + 1,
+          column: whitespace.length + 1,
+          severity: 'warning',
+          message: `Indentation of ${indent} spaces is not a multiple of ${unit}`,
+          fix: `Indent with ${lower} or ${lower + unit} spaces`,
+        });
+      }
+      
+      // Find parent based on indentation
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+      
+      const parentEntry = [...stack].reverse().find(entry => entry.node.type === 'folder');
+      const parent = parentEntry ? parentEntry.node : null;
       
-      const depth = Math.floor(indent / 2);
       const node: TreeNode = {
-        id: generateId(),
-        name: isFolder ? name.slice(0, -1) : name,
-        type: isFolder ? 'folder' : 'file',
-        depth,
+        id: UNASSIGNED_ID,
+        name: isFolder ? name.replace(/\/$/, '') : name,
+        type: link.target ? 'symlink' : isFolder ? 'folder' : 'file',
+        depth: parent ? parent.depth + 1 : 0,
         isExpanded: true,
         children: isFolder ? [] : undefined,
+        ...metadata,
       };
       
-      // Find parent based on depth
-      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
-        stack.pop();
+      if (link.target) {
+        node.target = link.target;
+      }
+      if (checkbox) {
+        node.checked = checkbox.toLowerCase() === 'x';
+      }
+      if (description) {
+        node.description = description;
       }
       
-      if (stack.length === 0) {
-        root.push(node);
-      } else {
-        const parent = stack[stack.length - 1].node;
-        if (parent.children) {
-          parent.children.push(node);
-        }
+      if (stack.length > 0 && stack[stack.length - 1].node.type !== 'folder') {
+        const file = stack[stack.length - 1].node;
+        diagnostics.push({
+          line: i + 1,
+          column: whitespace.length + 1,
+          severity: 'warning',
+          message: `"${node.name}" is indented under the ${file.type} "${file.name}", so it was placed ${parent ? `in "${parent.name}"` : 'at the top level'}`,
+          fix: file.type === 'symlink' ? 'Remove the indentation' : `Add a trailing / to "${file.name}" if it is a folder`,
+        });
+      } else if (parentEntry && indent - parentEntry.indent > unit && indent % unit === 0) {
+        diagnostics.push({
+          line: i + 1,
+          column: whitespace.length + 1,
+          severity: 'warning',
+          message: `"${node.name}" is indented more than one level deeper than "${parentEntry.node.name}"`,
+          fix: `Indent with ${parentEntry.indent + unit} spaces`,
+        });
       }
       
-      if (isFolder) {
-        stack.push({ node, indent });
+      if (!parent) {
+        root.push(node);
+      } else if (parent.children) {
+        parent.children.push(node);
       }
+      
+      stack.push({ node, indent });
     }
     
     if (root.length === 0) {
       return {
         success: false,
         error: 'No valid directory structure found in input',
+        diagnostics,
       };
     }
     
-    // If we have a root folder with children, adjust depths for proper indentation
-    if (root.length === 1 && root[0].type === 'folder' && root[0].children && root[0].children.length > 0) {
-      const adjustDepth = (nodes: TreeNode[], increment: number) => {
-        nodes.forEach(node => {
-          node.depth += increment;
-          if (node.children) {
-            adjustDepth(node.children, increment);
-          }
-        });
-      };
-      adjustDepth(root[0].children, 1);
-    }
-    
-    return { success: true, nodes: root };
+    const nodes = expandBraceNodes(root);
+    setDepths(nodes, 0);
+    return { success: true, nodes, diagnostics };
   } catch (error) {
     return {
       success: false,
       error: `Failed to parse markdown format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
     };
   }
 }
 
 /**
  * Parses ASCII format directory structure
- * Format: Uses box-drawing characters (├──, └──, │)
+ * Format: `tree` output using box-drawing characters (├──, └──, │) or
+ * `--charset=ascii` glyphs (|--, `--, |). A leading `.` root line and the
+ * trailing summary line are ignored, `tree -F` markers are stripped when
+ * folders carry its trailing slash, and any entry with nested entries
+ * beneath it is treated as a folder.
  */
 function parseAscii(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
   try {
-    const lines = input.split('\n');
+    // tree pads its vertical guides with non-breaking spaces
+    const lines = input.replace(/\u00a0/g, ' ').split('\n');
+    // `tree -F` marks folders with a slash along with its other type indicators
+    const isClassified = lines.some(line => {
+      const text = (line.match(ASCII_CONNECTOR_PATTERN)?.[2] ?? line).trim();
+      return splitLinkTarget(splitMetadata(splitComment(text).name).name).name.endsWith('/');
+    });
     const root: TreeNode[] = [];
-    const stack: { node: TreeNode; level: number }[] = [];
-    let hasTreeChars = false;
+    // Column is where the entry's name starts, so any connector width nests correctly
+    const stack: { node: TreeNode; column: number }[] = [];
     
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
@@ -178,196 +668,1419 @@ function parseAscii(input: string): ParseResult {
         continue;
       }
       
-      // Remove ASCII tree characters and calculate depth
-      let cleanLine = line;
-      let level = 0;
-      let foundTreeChar = false;
-      
-      // Count the depth by looking at tree characters
-      const treeChars = ['├──', '└──', '│   ', '    '];
-      let pos = 0;
+      let column: number;
+      let text: string;
+      const connectorMatch = line.match(ASCII_CONNECTOR_PATTERN);
       
-      while (pos < cleanLine.length) {
-        let matched = false;
-        
-        for (const char of treeChars) {
-          if (cleanLine.substring(pos, pos + char.length) === char) {
-            foundTreeChar = true;
-            hasTreeChars = true;
-            if (char === '├──' || char === '└──') {
-              // This is the actual node marker
-              cleanLine = cleanLine.substring(pos + char.length).trim();
-              matched = true;
-              break;
-            } else {
-              // This is indentation
-              level++;
-              pos += char.length;
-              matched = true;
-              break;
-            }
-          }
-        }
+      if (connectorMatch) {
+        text = connectorMatch[2].trim();
+        column = line.length - connectorMatch[2].length;
+      } else {
+        text = line.trim();
+        column = line.length - line.trimStart().length;
         
-        if (!matched) {
-          // No tree character found
-          cleanLine = cleanLine.trim();
-          break;
+        // The `.` root line and the report line carry no entries of their own
+        if (text === '.' || text === './' || TREE_SUMMARY_PATTERN.test(text)) {
+          continue;
         }
       }
       
-      const name = cleanLine.trim();
-      if (!name) {
-        continue;
+      const comment = splitComment(text);
+      const { name: entryName, metadata } = splitMetadata(comment.name);
+      const link = splitLinkTarget(entryName);
+      let name = link.name;
+      // A symlink's `@` comes right before its arrow, so it is clear without -F folders
+      const isIndicator = isClassified || (!!link.target && name.endsWith('@'));
+      if (isIndicator && TREE_TYPE_INDICATORS.includes(name.slice(-1))) {
+        name = name.slice(0, -1);
       }
       
-      const isFolder = name.endsWith('/');
+      const isFolder = !link.target && (name.endsWith('/') || !!metadata.mode?.startsWith('d'));
+      if (isFolder) {
+        name = name.replace(/\/+$/, '');
+      }
       
-      // If this is the first line and has no tree characters, it's the root folder
-      // All subsequent items with tree characters should be children
-      if (!foundTreeChar && i === 0 && isFolder) {
-        const node: TreeNode = {
-          id: generateId(),
-          name: name.slice(0, -1),
-          type: 'folder',
-          depth: 0,
-          isExpanded: true,
-          children: [],
-        };
-        root.push(node);
-        stack.push({ node, level: -1 }); // Use -1 so children at level 0 are nested under it
+      if (!name) {
         continue;
       }
       
+      // Find parent based on the column the name starts at
+      let closedColumn: number | null = null;
+      while (stack.length > 0 && stack[stack.length - 1].column >= column) {
+        closedColumn = stack.pop()!.column;
+      }
+      
+      const parent = stack.length > 0 ? stack[stack.length - 1].node : null;
+      
+      // Stepping back out should land exactly on an earlier sibling's column
+      if (closedColumn !== null && closedColumn !== column) {
+        diagnostics.push({
+          line: i + 1,
+          column: column + 1,
+          severity: 'warning',
+          message: `"${name}" is not aligned with the entries above it, so it was placed ${parent ? `in "${parent.name}"` : 'at the top level'}`,
+          fix: 'Line up the connector with its siblings',
+        });
+      }
       const node: TreeNode = {
-        id: generateId(),
-        name: isFolder ? name.slice(0, -1) : name,
-        type: isFolder ? 'folder' : 'file',
-        depth: level,
+        id: UNASSIGNED_ID,
+        name,
+        type: link.target ? 'symlink' : isFolder ? 'folder' : 'file',
+        depth: parent ? parent.depth + 1 : 0,
         isExpanded: true,
         children: isFolder ? [] : undefined,
+        ...metadata,
       };
       
-      // Find parent based on level
-      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
-        stack.pop();
+      if (link.target) {
+        node.target = link.target;
+      }
+      if (comment.description) {
+        node.description = comment.description;
       }
       
-      if (stack.length === 0) {
+      if (!parent) {
         root.push(node);
       } else {
-        const parent = stack[stack.length - 1].node;
-        if (parent.children) {
-          parent.children.push(node);
+        // An entry with nested entries is a folder even without a trailing slash,
+        // including a directory symlink whose contents `tree -l` listed
+        if (parent.type !== 'folder') {
+          parent.type = 'folder';
+        }
+        if (!parent.children) {
+          parent.children = [];
         }
+        parent.children.push(node);
       }
       
-      if (isFolder) {
-        stack.push({ node, level });
-      }
+      stack.push({ node, column });
     }
     
     if (root.length === 0) {
       return {
         success: false,
         error: 'No valid directory structure found in input',
+        diagnostics,
       };
     }
     
-    // If we have a root folder with children, adjust depths for proper indentation
-    if (root.length === 1 && root[0].type === 'folder' && root[0].children && root[0].children.length > 0) {
-      const adjustDepth = (nodes: TreeNode[], increment: number) => {
-        nodes.forEach(node => {
-          node.depth += increment;
-          if (node.children) {
-            adjustDepth(node.children, increment);
-          }
-        });
-      };
-      adjustDepth(root[0].children, 1);
-    }
-    
-    return { success: true, nodes: root };
+    return { success: true, nodes: root, diagnostics };
   } catch (error) {
     return {
       success: false,
       error: `Failed to parse ASCII format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
     };
   }
 }
 
 /**
- * Sanitizes input by removing comments and excessive whitespace
+ * Builds a nested tree from a list of paths split into segments
+ * Shared prefixes are merged, missing intermediate folders are created, and
+ * any entry that ends up with children is treated as a folder. Node IDs are
+ * left unassigned.
  */
-function sanitizeInput(input: string): string {
-  return input
-    .split('\n')
-    .map(line => {
-      // Remove lines that start with # (full line comments)
-      if (line.trim().startsWith('#')) {
-        return '';
-      }
-      
-      // Remove inline comments (everything after # including the #)
-      const commentIndex = line.indexOf('#');
-      if (commentIndex !== -1) {
-        line = line.substring(0, commentIndex);
+export function buildTreeFromPaths(entries: PathEntry[]): TreeNode[] {
+  const root: TreeNode[] = [];
+  const lookup = new Map<TreeNode[], Map<string, TreeNode>>();
+  
+  const getOrCreate = (siblings: TreeNode[], name: string, depth: number): TreeNode => {
+    let index = lookup.get(siblings);
+    if (!index) {
+      index = new Map();
+      lookup.set(siblings, index);
+    }
+    
+    let node = index.get(name);
+    if (!node) {
+      node = {
+        id: UNASSIGNED_ID,
+        name,
+        type: 'file',
+        depth,
+        isExpanded: true,
+      };
+      index.set(name, node);
+      siblings.push(node);
+    }
+    return node;
+  };
+  
+  for (const { segments, isFolder, description, size, modified, mode, target, status, renamedFrom } of entries) {
+    let siblings = root;
+    
+    segments.forEach((segment, depth) => {
+      const node = getOrCreate(siblings, segment, depth);
+      const isLast = depth === segments.length - 1;
+      
+      if (!isLast || isFolder) {
+        node.type = 'folder';
+        if (!node.children) {
+          node.children = [];
+        }
       }
       
-      return line;
-    })
-    .filter(line => {
-      // Remove completely empty lines
+      if (isLast && description) {
+        node.description = description;
+      }
+      if (isLast && size !== undefined) {
+        node.size = size;
+      }
+      if (isLast && modified) {
+        node.modified = modified;
+      }
+      if (isLast && mode) {
+        node.mode = mode;
+      }
+      if (isLast && target && !node.children) {
+        node.type = 'symlink';
+        node.target = target;
+      }
+      if (isLast && status) {
+        node.status = status;
+      }
+      if (isLast && renamedFrom) {
+        node.renamedFrom = renamedFrom;
+      }
+      
+      if (node.children) {
+        siblings = node.children;
+      }
+    });
+  }
+  
+  return root;
+}
+
+/**
+ * Parses Windows `tree /F` output
+ * Format: folders are introduced by ├───/└─── (or +---/\--- with /A) and files
+ * are listed beneath them without a connector. Volume headers are ignored and
+ * a drive letter root (C:. or C:\PROJECT) is reduced to its folder name; any
+ * other root line names the root folder.
+ */
+function parseWindowsTree(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  try {
+    const lines = input.split('\n');
+    const root: TreeNode[] = [];
+    const stack: { node: TreeNode; column: number }[] = [];
+    
+    for (const line of lines) {
+      const trimmed = line.trim();
+      
+      // Skip empty lines, guide-only spacer lines and volume headers
+      if (!trimmed || /^[│|\s]+$/.test(line) || WINDOWS_TREE_NOISE_PATTERNS.some(pattern => pattern.test(trimmed))) {
+        continue;
+      }
+      
+      let name: string;
+      let column: number;
+      let isFolder: boolean;
+      const connectorMatch = line.match(WINDOWS_TREE_CONNECTOR_PATTERN);
+      
+      if (connectorMatch) {
+        name = connectorMatch[2];
+        column = line.length - connectorMatch[2].length;
+        isFolder = true;
+      } else {
+        const guides = line.match(/^[\s│|]*/)![0];
+        name = line.slice(guides.length).trim();
+        column = guides.length;
+        isFolder = false;
+        
+        // The root line is the folder listing itself, usually by its drive letter
+        if (column === 0 && stack.length === 0 && root.length === 0) {
+          const rootPath = name.replace(DRIVE_LETTER_PATTERN, '');
+          const rootName = rootPath.split('\\').filter(Boolean).pop();
+          if (!rootName || rootName === '.') {
+            continue;
+          }
+          name = rootName;
+          isFolder = true;
+        }
+      }
+      
+      const comment = splitComment(name);
+      
+      // Find parent based on the column the name starts at
+      while (stack.length > 0 && stack[stack.length - 1].column >= column) {
+        stack.pop();
+      }
+      
+      const parent = stack.length > 0 ? stack[stack.length - 1].node : null;
+      const node: TreeNode = {
+        id: UNASSIGNED_ID,
+        name: comment.name.trim(),
+        type: isFolder ? 'folder' : 'file',
+        depth: parent ? parent.depth + 1 : 0,
+        isExpanded: true,
+        children: isFolder ? [] : undefined,
+      };
+      
+      if (comment.description) {
+        node.description = comment.description;
+      }
+      
+      if (!parent) {
+        root.push(node);
+      } else if (parent.children) {
+        parent.children.push(node);
+      }
+      
+      if (isFolder) {
+        stack.push({ node, column });
+      }
+    }
+    
+    if (root.length === 0) {
+      return {
+        success: false,
+        error: 'No valid directory structure found in input',
+        diagnostics,
+      };
+    }
+    
+    return { success: true, nodes: root, diagnostics };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse Windows tree format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
+    };
+  }
+}
+
+/**
+ * Reads the size and path of a `du` line
+ * du separates its columns with a tab; with spaces the second column must look
+ * like a path, so a name such as `2024 report.pdf` is not taken for a size.
+ */
+function matchDuLine(line: string): { size: string; separator: string; path: string } | null {
+  const match = line.match(DU_LINE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, size, separator, path] = match;
+  const isPathLike = path === '.' || /[\\/]/.test(path);
+  return separator.includes('\t') || isPathLike ? { size, separator, path } : null;
+}
+
+/**
+ * Parses flat path listings, one path per line
+ * Format: output of `find`, `git ls-files`, `fd`, `dir /s /b` or
+ * `Get-ChildItem -Recurse -Name`. Forward and back slashes are both accepted,
+ * `./` prefixes and drive letters are stripped, a trailing separator marks a
+ * folder, and absolute listings are made relative to the directory they were
+ * taken from.
+ */
+function parsePathList(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  try {
+    let lines: { name: string; description?: string; size?: number }[] = input
+      .split('\n')
+      .map(line => splitComment(line.trim()))
+      .filter(line => line.name)
+      // src/{api,web}/index.ts lists one path per expansion
+      .flatMap(line => expandBraces(line.name).map(name => ({ ...line, name })));
+    
+    // `du` prints a size column before each path, in 1K blocks unless suffixed
+    const usage = lines.map(({ name }) => matchDuLine(name));
+    if (usage.length > 0 && usage.every(Boolean)) {
+      lines = lines.map((line, index) => ({
+        ...line,
+        name: usage[index]!.path,
+        size: parseSize(usage[index]!.size, 1024),
+      }));
+    }
+    
+    const isAbsolute = lines.every(({ name }) => DRIVE_LETTER_PATTERN.test(name) || name.startsWith('/'));
+    
+    let entries = lines
+      .map(({ name, description, size }) => ({
+        segments: name
+          .replace(DRIVE_LETTER_PATTERN, '')
+          .split(/[\\/]+/)
+          .filter(segment => segment && segment !== '.'),
+        isFolder: /[\\/]$/.test(name),
+        description,
+        size,
+      }))
+      .filter(entry => entry.segments.length > 0);
+    
+    // Absolute listings describe the contents of a directory, not the directory itself
+    if (isAbsolute && entries.length > 0) {
+      const shortest = Math.min(...entries.map(entry => entry.segments.length));
+      const first = entries[0].segments;
+      let common = 0;
+      while (
+        common < shortest - 1 &&
+        entries.every(entry => entry.segments[common].toLowerCase() === first[common].toLowerCase())
+      ) {
+        common++;
+      }
+      entries = entries.map(entry => ({ ...entry, segments: entry.segments.slice(common) }));
+    }
+    
+    const root = buildTreeFromPaths(entries);
+    
+    if (root.length === 0) {
+      return {
+        success: false,
+        error: 'No valid directory structure found in input',
+        diagnostics,
+      };
+    }
+    
+    return { success: true, nodes: root, diagnostics };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse path list: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
+    };
+  }
+}
+
+/**
+ * Reads a path as git prints it, undoing the C-style quoting used for
+ * names with special or non-ASCII characters ("caf\303\251.txt")
+ */
+function unquoteGitPath(path: string): string {
+  if (!/^".*"$/.test(path)) {
+    return path;
+  }
+  
+  const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13 };
+  const encoder = new TextEncoder();
+  const characters = Array.from(path.slice(1, -1));
+  const bytes: number[] = [];
+  
+  for (let i = 0; i < characters.length; i++) {
+    if (characters[i] !== '\\' || i === characters.length - 1) {
+      bytes.push(...encoder.encode(characters[i]));
+      continue;
+    }
+    
+    // Octal escapes are single bytes of a UTF-8 sequence
+    const octal = characters.slice(i + 1, i + 4).join('');
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      const escaped = characters[++i];
+      bytes.push(...(escapes[escaped] !== undefined ? [escapes[escaped]] : encoder.encode(escaped)));
+    }
+  }
+  
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * Reads one line of `git status --porcelain`, `git diff --name-status` or
+ * `git ls-tree` output, or returns null when it is none of them
+ * A rename becomes a move: the entry sits at its new path and remembers the old one.
+ */
+function parseGitLine(line: string): PathEntry | null {
+  const toEntry = (path: string, code: string, from?: string): PathEntry => {
+    const unquoted = unquoteGitPath(path);
+    const status = GIT_STATUS_CODES[code];
+    return {
+      segments: unquoted.split('/').filter(Boolean),
+      isFolder: unquoted.endsWith('/'),
+      status,
+      renamedFrom: status === 'renamed' && from ? unquoteGitPath(from) : undefined,
+    };
+  };
+  
+  const listing = line.match(GIT_LS_TREE_LINE_PATTERN);
+  if (listing) {
+    const [, mode, type, , size, path] = listing;
+    return {
+      segments: unquoteGitPath(path).split('/').filter(Boolean),
+      isFolder: type !== 'blob',
+      mode: GIT_FILE_MODES[mode],
+      size: size && size !== '-' ? Number(size) : undefined,
+    };
+  }
+  
+  const change = line.match(GIT_NAME_STATUS_LINE_PATTERN);
+  if (change) {
+    const [, code, , path, newPath] = change;
+    return newPath ? toEntry(newPath, code, path) : toEntry(path, code);
+  }
+  
+  const status = line.match(GIT_STATUS_LINE_PATTERN);
+  if (status && (status[1] + status[2]).trim()) {
+    const [, index, worktree, paths] = status;
+    // Staged changes win over later edits in the working tree
+    const code = index === ' ' ? worktree : index;
+    const rename = paths.match(/^("(?:[^"\\]|\\.)*"|.+?) -> (.+)$/);
+    return rename && (code === 'R' || code === 'C') ? toEntry(rename[2], code, rename[1]) : toEntry(paths, code);
+  }
+  
+  return null;
+}
+
+/**
+ * Parses the file lists printed by git
+ * Format: `git status --porcelain` (XY path), `git diff --name-status`
+ * (status, tab, path) or `git ls-tree` (mode type object, tab, path).
+ * Each file is marked added, modified, deleted or renamed.
+ */
+function parseGitOutput(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  try {
+    const entries: PathEntry[] = [];
+    
+    input.split('\n').forEach((rawLine, index) => {
+      const line = rawLine.replace(/\r$/, '');
+      if (!line.trim()) {
+        return;
+      }
+      
+      const entry = parseGitLine(line);
+      if (entry && entry.segments.length > 0) {
+        entries.push(entry);
+      } else {
+        diagnostics.push({
+          line: index + 1,
+          column: 1,
+          severity: 'warning',
+          message: `Skipped "${line.trim()}", which is not git status, diff or ls-tree output`,
+        });
+      }
+    });
+    
+    const root = buildTreeFromPaths(entries);
+    
+    if (root.length === 0) {
+      return {
+        success: false,
+        error: 'No files found in git output',
+        diagnostics,
+      };
+    }
+    
+    return { success: true, nodes: root, diagnostics };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse git output: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
+    };
+  }
+}
+
+/**
+ * Type guard for plain JSON objects
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses JSON in the native TreeNodeJson schema
+ * Format: [{ "name": "src", "type": "folder", "children": [...] }]
+ */
+function parseJson(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  try {
+    const data: unknown = JSON.parse(input);
+    const entries = Array.isArray(data) ? data : [data];
+    
+    const convert = (items: unknown[], depth: number): TreeNode[] => {
+      return items.map(item => {
+        if (!isObject(item) || typeof item.name !== 'string' || !item.name) {
+          throw new Error('every node needs a "name" string');
+        }
+        
+        const children = Array.isArray(item.children) ? item.children : undefined;
+        const isFolder = item.type === 'folder' || (item.type === undefined && children !== undefined);
+        const isSymlink = item.type === 'symlink' && typeof item.target === 'string';
+        
+        const node: TreeNode = {
+          id: UNASSIGNED_ID,
+          name: item.name,
+          type: isSymlink ? 'symlink' : isFolder ? 'folder' : 'file',
+          depth,
+          isExpanded: true,
+          children: isFolder ? convert(children ?? [], depth + 1) : undefined,
+        };
+        if (isSymlink) {
+          node.target = item.target as string;
+        }
+        if (typeof item.description === 'string' && item.description) {
+          node.description = item.description;
+        }
+        if (typeof item.size === 'number') {
+          node.size = item.size;
+        }
+        if (typeof item.modified === 'string') {
+          node.modified = item.modified;
+        }
+        if (typeof item.mode === 'string') {
+          node.mode = item.mode;
+        }
+        if (typeof item.status === 'string' && Object.values(GIT_STATUS_CODES).includes(item.status as ChangeStatus)) {
+          node.status = item.status as ChangeStatus;
+        }
+        if (typeof item.renamedFrom === 'string') {
+          node.renamedFrom = item.renamedFrom;
+        }
+        return node;
+      });
+    };
+    
+    const root = convert(entries, 0);
+    
+    if (root.length === 0) {
+      return {
+        success: false,
+        error: 'No valid directory structure found in input',
+        diagnostics,
+      };
+    }
+    
+    return { success: true, nodes: root, diagnostics };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse JSON format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
+    };
+  }
+}
+
+/**
+ * Parses the JSON document produced by `tree -J`
+ * Format: [{ "type": "directory", "name": ".", "contents": [...] }, { "type": "report", ... }]
+ * The report entry is dropped and a `.` root is unwrapped like in the text parser.
+ */
+function parseTreeCommandJson(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  try {
+    const data: unknown = JSON.parse(input);
+    let entries = (Array.isArray(data) ? data : [data]).filter(
+      entry => isObject(entry) && entry.type !== 'report'
+    ) as TreeCommandJsonEntry[];
+    
+    if (entries.length === 1 && entries[0].type === 'directory' && entries[0].name === '.') {
+      entries = entries[0].contents ?? [];
+    }
+    
+    const convert = (items: TreeCommandJsonEntry[], depth: number): TreeNode[] => {
+      return items
+        .filter(item => item.type !== 'report' && typeof item.name === 'string')
+        .map(item => {
+          const isFolder = item.type === 'directory';
+          const node: TreeNode = {
+            id: UNASSIGNED_ID,
+            name: item.name!,
+            type: item.type === 'link' ? 'symlink' : isFolder ? 'folder' : 'file',
+            depth,
+            isExpanded: true,
+            children: isFolder ? convert(item.contents ?? [], depth + 1) : undefined,
+          };
+          if (item.type === 'link' && item.target) {
+            node.target = item.target;
+          }
+          if (typeof item.size === 'number') {
+            node.size = item.size;
+          }
+          if (item.prot) {
+            node.mode = item.prot;
+          }
+          if (item.time !== undefined) {
+            node.modified = String(item.time);
+          }
+          return node;
+        });
+    };
+    
+    const root = convert(entries, 0);
+    
+    if (root.length === 0) {
+      return {
+        success: false,
+        error: 'No valid directory structure found in input',
+        diagnostics,
+      };
+    }
+    
+    return { success: true, nodes: root, diagnostics };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse tree JSON format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
+    };
+  }
+}
+
+/**
+ * Removes a YAML comment (a # at the start or after whitespace, outside quotes)
+ */
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i).trimEnd();
+    }
+  }
+  
+  return line;
+}
+
+/**
+ * Removes YAML quoting from a scalar
+ */
+function unquoteYaml(value: string): string {
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/**
+ * Parses a nested YAML mapping
+ * Format: folders are keys holding a mapping (or {} when empty), files are keys
+ * with no value. Sequences of names are also accepted as folder contents.
+ *
+ *   src:
+ *     index.ts:
+ *     assets: {}
+ *   README.md:
+ */
+function parseYaml(input: string): ParseResult {
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  try {
+    const lines = input.split('\n');
+    const root: TreeNode[] = [];
+    const stack: { node: TreeNode; indent: number }[] = [];
+    
+    for (let i = 0; i < lines.length; i++) {
+      const rawLine = lines[i];
+      const leadingTab = rawLine.match(/^ *\t/);
+      
+      if (leadingTab) {
+        diagnostics.push({
+          line: i + 1,
+          column: leadingTab[0].length,
+          severity: 'warning',
+          message: 'YAML does not allow tabs for indentation; each tab was read as two spaces',
+          fix: 'Indent with spaces',
+        });
+      }
+      
+      const line = stripYamlComment(rawLine.replace(/\t/g, '  '));
       const trimmed = line.trim();
-      if (trimmed.length === 0) {
-        return false;
+      
+      if (!trimmed || trimmed === '---' || trimmed === '...') {
+        continue;
+      }
+      
+      let indent = line.length - line.trimStart().length;
+      let text = trimmed;
+      
+      // Sequence items nest under a key even at the key's own indentation
+      const itemMatch = text.match(/^-\s+(.*)$/);
+      if (itemMatch) {
+        text = itemMatch[1];
+        indent += 1;
+      }
+      
+      let name: string;
+      let isFolder: boolean;
+      const keyMatch = text.match(YAML_KEY_PATTERN);
+      
+      if (keyMatch) {
+        name = unquoteYaml(keyMatch[1].trim());
+        const value = (keyMatch[2] ?? '').trim();
+        isFolder = value === '{}' || value === '[]' || name.endsWith('/');
+      } else {
+        name = unquoteYaml(text);
+        isFolder = name.endsWith('/');
+      }
+      
+      const link = splitLinkTarget(name);
+      name = link.name.replace(/\/+$/, '');
+      if (!name) {
+        continue;
+      }
+      
+      // Find parent based on indentation
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+      
+      const parent = stack.length > 0 ? stack[stack.length - 1].node : null;
+      const node: TreeNode = {
+        id: UNASSIGNED_ID,
+        name,
+        type: link.target ? 'symlink' : isFolder ? 'folder' : 'file',
+        depth: parent ? parent.depth + 1 : 0,
+        isExpanded: true,
+        children: isFolder && !link.target ? [] : undefined,
+      };
+      
+      if (link.target) {
+        node.target = link.target;
+      }
+      
+      if (!parent) {
+        root.push(node);
+      } else {
+        // A key holding a nested mapping or sequence is a folder
+        parent.type = 'folder';
+        if (!parent.children) {
+          parent.children = [];
+        }
+        parent.children.push(node);
+      }
+      
+      stack.push({ node, indent });
+    }
+    
+    if (root.length === 0) {
+      return {
+        success: false,
+        error: 'No valid directory structure found in input',
+        diagnostics,
+      };
+    }
+    
+    return { success: true, nodes: root, diagnostics };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse YAML format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      diagnostics,
+    };
+  }
+}
+
+/**
+ * Sanitizes input by removing comment lines and lines without names
+ * Inline # comments are left in place for the parsers to keep as descriptions.
+ * Removed lines are blanked rather than dropped so line numbers in
+ * diagnostics still match the original input.
+ */
+function sanitizeInput(input: string): { text: string; diagnostics: ParseDiagnostic[] } {
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  const text = input
+    .split('\n')
+    .map((line, index) => {
+      // Remove lines that are only a comment (# note, ## Heading)
+      if (COMMENT_LINE_PATTERN.test(line)) {
+        diagnostics.push({
+          line: index + 1,
+          column: line.indexOf('#') + 1,
+          severity: 'warning',
+          message: 'Line ignored because it is a # comment',
+          fix: 'Remove the space after # if this line is a file or folder name',
+        });
+        return '';
       }
       
       // Remove lines that only contain tree characters and whitespace, no actual folder/file names
       // Keep lines that have at least one alphanumeric character or slash
-      const hasContent = /[a-zA-Z0-9_.\-/]/.test(trimmed);
+      const { name } = splitComment(line);
+      const hasContent = /[a-zA-Z0-9_.\-/]/.test(name);
+      
+      if (!hasContent) {
+        // Tree guides on their own are spacing, anything else is worth mentioning
+        if (/[^\s│|┃║├└╰┣┗╠╚─━═+\\`]/.test(name)) {
+          diagnostics.push({
+            line: index + 1,
+            column: line.length - line.trimStart().length + 1,
+            severity: 'warning',
+            message: 'Line ignored because it contains no file or folder name',
+          });
+        }
+        return '';
+      }
       
-      return hasContent;
+      return line;
     })
     .join('\n');
+  
+  return { text, diagnostics };
 }
 
 /**
- * Main parser function that detects format and parses accordingly
+ * Input prepared once for format scoring
  */
-export function parseDirectoryStructure(input: string): ParseResult {
-  // Validate input
-  if (!input || !input.trim()) {
-    return {
-      success: false,
-      error: 'Input is empty. Please provide a directory structure.',
-    };
+interface FormatSample {
+  /** Raw input, for formats that rely on brackets and comments */
+  raw: string;
+  /** Sanitized, non-empty lines with inline comments removed */
+  lines: string[];
+  /** Top-level JSON entries, or null when the input is not JSON */
+  json: unknown[] | null;
+}
+
+/**
+ * A registered input format: how likely the input is in it, and how to parse it
+ */
+interface InputFormatHandler {
+  format: Exclude<InputFormat, 'unknown'>;
+  /** Whether the parser reads the raw input rather than the sanitized text */
+  usesRawInput: boolean;
+  /** Returns a confidence between 0 (not this format) and 1 (certainly this format) */
+  score: (sample: FormatSample) => number;
+  parse: ParserFunction;
+}
+
+/**
+ * Human-readable names for the input formats
+ */
+export const INPUT_FORMAT_LABELS: Record<InputFormat, string> = {
+  markdown: 'Markdown list',
+  ascii: 'tree output',
+  'windows-tree': 'Windows tree /F',
+  'windows-paths': 'Windows path list',
+  paths: 'Path list',
+  du: 'du output',
+  json: 'JSON',
+  'tree-json': 'tree -J JSON',
+  yaml: 'YAML',
+  git: 'git status / diff / ls-tree',
+  unknown: 'Unknown format',
+};
+
+/**
+ * Confidence gap within which two formats are reported as equally likely
+ */
+const AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * Parses the input as JSON if possible, as a list of top-level entries
+ */
+function tryParseJson(raw: string): unknown[] | null {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+    return null;
+  }
+  
+  try {
+    const data: unknown = JSON.parse(trimmed);
+    return Array.isArray(data) ? data : [data];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether parsed JSON entries use the `tree -J` vocabulary
+ */
+function isTreeCommandJson(entries: unknown[]): boolean {
+  return entries.some(entry =>
+    isObject(entry) && (['directory', 'link', 'report'].includes(entry.type as string) || 'contents' in entry)
+  );
+}
+
+/**
+ * Fraction of lines matching a predicate
+ */
+function fractionOf(lines: string[], predicate: (line: string) => boolean): number {
+  return lines.length === 0 ? 0 : lines.filter(predicate).length / lines.length;
+}
+
+/**
+ * Registered input formats, in priority order for equal scores
+ */
+const INPUT_FORMAT_HANDLERS: InputFormatHandler[] = [
+  {
+    format: 'tree-json',
+    usesRawInput: true,
+    score: ({ json }) => {
+      return json && isTreeCommandJson(json) ? 1 : 0;
+    },
+    parse: parseTreeCommandJson,
+  },
+  {
+    format: 'json',
+    usesRawInput: true,
+    score: ({ json }) => {
+      if (!json || isTreeCommandJson(json)) {
+        return 0;
+      }
+      return json.every(entry => isObject(entry) && typeof entry.name === 'string') ? 1 : 0.6;
+    },
+    parse: parseJson,
+  },
+  {
+    format: 'yaml',
+    usesRawInput: true,
+    score: ({ raw }) => {
+      const lines = raw
+        .split('\n')
+        .map(stripYamlComment)
+        .filter(line => line.trim() && line.trim() !== '---');
+      
+      // A YAML tree starts with a key and holds only keys and sequence items
+      if (lines.length === 0 || !YAML_KEY_PATTERN.test(lines[0].trim())) {
+        return 0;
+      }
+      
+      const keyLines = fractionOf(lines, line => YAML_KEY_PATTERN.test(line.trim()));
+      const itemLines = fractionOf(lines, line => !YAML_KEY_PATTERN.test(line.trim()) && /^\s*-\s+\S/.test(line));
+      return keyLines + itemLines === 1 ? 0.9 : 0;
+    },
+    parse: parseYaml,
+  },
+  {
+    format: 'git',
+    usesRawInput: true,
+    score: ({ raw }) => {
+      // Every line carries a git status or ls-tree columns before its path
+      const lines = raw.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+      const gitLines = fractionOf(lines, line => parseGitLine(line) !== null);
+      return gitLines === 1 ? 0.95 : gitLines >= 0.8 ? 0.6 + 0.3 * gitLines : 0;
+    },
+    parse: parseGitOutput,
+  },
+  {
+    format: 'windows-tree',
+    usesRawInput: false,
+    score: ({ lines }) => {
+      // Windows tree /F marks folders with ├─── or +--- and prints a volume header
+      if (lines.some(line => WINDOWS_TREE_NOISE_PATTERNS.some(pattern => pattern.test(line.trim())))) {
+        return 1;
+      }
+      
+      const connectors = fractionOf(lines, line => WINDOWS_TREE_CONNECTOR_PATTERN.test(line));
+      return connectors > 0 ? 0.7 + 0.25 * connectors : 0;
+    },
+    parse: parseWindowsTree,
+  },
+  {
+    format: 'ascii',
+    usesRawInput: false,
+    score: ({ lines }) => {
+      // Unicode box drawing or `tree --charset=ascii` connectors (|-- and `--)
+      const isTreeLine = (line: string) =>
+        ASCII_CONNECTOR_PATTERN.test(line) && !WINDOWS_TREE_CONNECTOR_PATTERN.test(line);
+      // The root line and the summary line carry no connectors of their own
+      const body = lines.filter(
+        (line, index) => !TREE_SUMMARY_PATTERN.test(line.trim()) && (index > 0 || isTreeLine(line))
+      );
+      const connectors = fractionOf(body, isTreeLine);
+      
+      if (connectors > 0) {
+        return 0.6 + 0.35 * connectors;
+      }
+      
+      const boxDrawing = fractionOf(lines, line => /[├└╰│─┣┗┃━╠╚║═]/.test(line));
+      return boxDrawing > 0 ? 0.55 + 0.2 * boxDrawing : 0;
+    },
+    parse: parseAscii,
+  },
+  {
+    format: 'du',
+    usesRawInput: false,
+    score: ({ lines }) => {
+      // du prints a size column and a tab before every path; space-separated
+      // columns could be names that start with a number, so paths win those
+      const usage = lines.map(line => matchDuLine(line.trim()));
+      if (lines.length === 0 || !usage.every(Boolean)) {
+        return 0;
+      }
+      return usage.every(match => match!.separator.includes('\t')) ? 0.95 : 0.45;
+    },
+    parse: parsePathList,
+  },
+  {
+    format: 'windows-paths',
+    usesRawInput: false,
+    score: ({ lines }) => {
+      // dir /s /b or Get-ChildItem -Name output (backslash-separated paths)
+      if (!lines.every(line => !/^\s/.test(line) && !line.includes('/'))) {
+        return 0;
+      }
+      
+      const paths = fractionOf(lines, line => line.includes('\\'));
+      return paths > 0 ? 0.5 + 0.4 * paths : 0;
+    },
+    parse: parsePathList,
+  },
+  {
+    format: 'paths',
+    usesRawInput: false,
+    score: ({ lines }) => {
+      // find, git ls-files or fd output (one slash-separated path per line)
+      if (!lines.every(line => !/^\s/.test(line) && !/^(?:[-*+]|\d+[.)])\s/.test(line))) {
+        return 0;
+      }
+      
+      const paths = fractionOf(lines, line => /[^/\\]\/[^/]/.test(line));
+      return paths > 0 ? 0.5 + 0.4 * paths : 0;
+    },
+    parse: parsePathList,
+  },
+  {
+    format: 'markdown',
+    usesRawInput: false,
+    score: ({ lines }) => {
+      // Any indented text can be read as a plain outline, so markdown is never ruled out
+      if (lines.length === 0) {
+        return 0;
+      }
+      return 0.5 + 0.4 * fractionOf(lines, line => MARKDOWN_LIST_ITEM_PATTERN.test(line));
+    },
+    parse: parseMarkdown,
+  },
+];
+
+/**
+ * Scores the input against every registered format
+ * The best match is returned along with any formats scoring within
+ * AMBIGUITY_MARGIN of it, so callers can offer them instead of guessing.
+ */
+export function detectInputFormat(input: string): FormatDetection {
+  const sample: FormatSample = {
+    raw: input,
+    lines: sanitizeInput(input)
+      .text.split('\n')
+      .map(line => splitComment(line).name)
+      .filter(line => line.trim()),
+    // Parsed once here for both JSON scorers
+    json: tryParseJson(input),
+  };
+  
+  const scores = INPUT_FORMAT_HANDLERS
+    .map(handler => ({ format: handler.format, confidence: handler.score(sample) }))
+    .filter(score => score.confidence > 0)
+    // Array.prototype.sort is stable, so ties keep registration order
+    .sort((a, b) => b.confidence - a.confidence);
+  
+  if (scores.length === 0) {
+    return { format: 'unknown', confidence: 0, scores, alternatives: [] };
+  }
+  
+  const [best, ...rest] = scores;
+  return {
+    format: best.format,
+    confidence: best.confidence,
+    scores,
+    alternatives: rest.filter(score => best.confidence - score.confidence <= AMBIGUITY_MARGIN),
+  };
+}
+
+/**
+ * Replaces the placeholder IDs of a successful parse with path-based IDs
+ */
+function withNodeIds(result: ParseResult): ParseResult {
+  return result.success ? { ...result, nodes: assignNodeIds(result.nodes) } : result;
+}
+
+/**
+ * Opening or closing line of a fenced code block, with its language tag
+ */
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([^`\s]*)/;
+
+/**
+ * Markdown heading line
+ */
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Formats that can be picked out of surrounding prose; JSON and YAML
+ * snippets in documents are usually configuration, not trees
+ */
+const DOCUMENT_TREE_FORMATS: InputFormat[] = ['markdown', 'ascii', 'windows-tree', 'windows-paths', 'paths', 'du', 'tree-json'];
+
+/**
+ * Lowest detection confidence for a block of a document to count as a tree
+ */
+const DOCUMENT_TREE_CONFIDENCE = 0.8;
+
+/**
+ * Whether a block of lines reads as a directory tree rather than prose or code
+ * Besides being detected as a tree format, most entries must look like
+ * file names: a single word, or anything ending in a slash.
+ */
+function isTreeShaped(lines: string[], detection: FormatDetection = detectInputFormat(lines.join('\n'))): boolean {
+  if (!DOCUMENT_TREE_FORMATS.includes(detection.format) || detection.confidence < DOCUMENT_TREE_CONFIDENCE) {
+    return false;
+  }
+  if (detection.format === 'tree-json') {
+    return true;
+  }
+  
+  const entries = lines
+    .filter(line => line.trim() && !COMMENT_LINE_PATTERN.test(line))
+    .map(line => {
+      const text = line.replace(ENTRY_PREFIX_PATTERN, '');
+      return splitLinkTarget(splitMetadata(splitComment(text).name).name).name.trim();
+    })
+    .filter(name => name && !TREE_SUMMARY_PATTERN.test(name) && !matchDuLine(name));
+  
+  const pathLike = entries.filter(name => !/\s/.test(name) || name.endsWith('/'));
+  return entries.length === 0 || pathLike.length / entries.length >= 0.75;
+}
+
+/**
+ * Finds the directory trees in a pasted document
+ * Fenced blocks and runs of paragraphs that read as trees are candidates;
+ * blank lines and headings between tree paragraphs do not split them.
+ * Returns an empty list when the input is not a document, meaning it has
+ * neither fences nor prose, so plain tree input is parsed as a whole.
+ * A detection of the whole input is reused for a paragraph spanning all of it.
+ */
+function findDocumentTrees(input: string, wholeDetection?: FormatDetection): ExtractedTree[] {
+  const lines = input.split('\n');
+  const contentLineCount = lines.filter(line => line.trim()).length;
+  const trees: ExtractedTree[] = [];
+  let isDocument = false;
+  let heading: string | null = null;
+  let paragraph: number[] = [];
+  let region: { start: number; end: number; label: string | null } | null = null;
+  
+  const label = (text: string | null) => text ?? `Tree ${trees.length + 1}`;
+  
+  const closeRegion = () => {
+    if (region) {
+      trees.push({ startLine: region.start + 1, endLine: region.end + 1, label: label(region.label) });
+      region = null;
+    }
+  };
+  
+  const closeParagraph = () => {
+    if (paragraph.length === 0) {
+      return;
+    }
+    
+    const text = paragraph.map(index => lines[index]);
+    if (isTreeShaped(text, paragraph.length === contentLineCount ? wholeDetection : undefined)) {
+      region = region
+        ? { ...region, end: paragraph[paragraph.length - 1] }
+        : { start: paragraph[0], end: paragraph[paragraph.length - 1], label: heading };
+    } else if (text.every(line => COMMENT_LINE_PATTERN.test(line) || TREE_SUMMARY_PATTERN.test(line.trim()))) {
+      // Comments and the `tree` report line belong to the tree above them
+      if (region) {
+        region = { ...region, end: paragraph[paragraph.length - 1] };
+      }
+    } else {
+      isDocument = true;
+      closeRegion();
+    }
+    paragraph = [];
+  };
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(FENCE_PATTERN);
+    
+    if (fence) {
+      closeParagraph();
+      closeRegion();
+      isDocument = true;
+      
+      // The block runs to a fence of the same kind and at least the same length
+      const closing = new RegExp(`^\\s*${fence[1][0]}{${fence[1].length},}\\s*$`);
+      let end = i + 1;
+      while (end < lines.length && !closing.test(lines[end])) {
+        end++;
+      }
+      
+      const content = lines.slice(i + 1, end);
+      const first = content.findIndex(text => text.trim());
+      const last = content.length - 1 - [...content].reverse().findIndex(text => text.trim());
+      if (first !== -1 && isTreeShaped(content)) {
+        trees.push({ startLine: i + 2 + first, endLine: i + 2 + last, label: label(heading ?? (fence[2] || null)) });
+      }
+      
+      i = end;
+      continue;
+    }
+    
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      closeParagraph();
+      heading = headingMatch[1];
+      continue;
+    }
+    
+    if (!line.trim()) {
+      closeParagraph();
+    } else {
+      paragraph.push(i);
+    }
+  }
+  
+  closeParagraph();
+  closeRegion();
+  
+  return isDocument ? trees : [];
+}
+
+/**
+ * Lists the parts of a document left out of the selected tree as diagnostics
+ */
+function describeIgnoredLines(input: string, trees: ExtractedTree[], selected: ExtractedTree): ParseDiagnostic[] {
+  const lines = input.split('\n');
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  const range = (start: number, end: number) => (start === end ? `line ${start}` : `lines ${start}-${end}`);
+  
+  for (const tree of trees) {
+    if (tree !== selected) {
+      diagnostics.push({
+        line: tree.startLine,
+        column: 1,
+        severity: 'warning',
+        message: `Skipped another tree (${tree.label}) on ${range(tree.startLine, tree.endLine)}`,
+        fix: 'Choose it from the list of trees found in this document',
+      });
+    }
+  }
+  
+  // Stretches of surrounding text, fences and headings between trees
+  const inTree = (line: number) => trees.some(tree => line >= tree.startLine && line <= tree.endLine);
+  let ignored: number[] = [];
+  
+  for (let line = 1; line <= lines.length + 1; line++) {
+    if (line <= lines.length && !inTree(line)) {
+      if (lines[line - 1].trim()) {
+        ignored.push(line);
+      }
+    } else if (ignored.length > 0) {
+      const start = ignored[0];
+      diagnostics.push({
+        line: start,
+        column: 1,
+        severity: 'warning',
+        message: `Ignored ${ignored.length} ${ignored.length === 1 ? 'line' : 'lines'} of surrounding text on ${range(start, ignored[ignored.length - 1])}`,
+      });
+      ignored = [];
+    }
+  }
+  
+  return diagnostics;
+}
+
+/**
+ * Picks the chosen format, or detects one when none was chosen
+ */
+function resolveFormat(input: string, format?: InputFormat): InputFormat {
+  return format && format !== 'unknown' ? format : detectInputFormat(input).format;
+}
+
+/**
+ * Parses a single directory structure in a format already chosen or detected
+ */
+function parseText(input: string, selectedFormat: InputFormat): ParseResult {
+  const handler = INPUT_FORMAT_HANDLERS.find(entry => entry.format === selectedFormat);
+  
+  // Structured formats are parsed from the raw input
+  if (handler?.usesRawInput) {
+    return { ...withNodeIds(handler.parse(input)), format: handler.format };
   }
   
   // Sanitize input to remove comments and excessive whitespace
-  const sanitizedInput = sanitizeInput(input);
+  const { text: sanitizedInput, diagnostics } = sanitizeInput(input);
   
   if (!sanitizedInput.trim()) {
     return {
       success: false,
       error: 'Input contains only comments or whitespace. Please provide a valid directory structure.',
+      diagnostics,
     };
   }
   
-  // Detect format
-  const format = detectFormat(sanitizedInput);
-  
-  if (format === 'unknown') {
+  if (!handler) {
     return {
       success: false,
       error: 'Unable to detect input format. Please use markdown (- folder/) or ASCII (├── folder/) format.',
+      diagnostics,
+    };
+  }
+  
+  const result = withNodeIds(handler.parse(sanitizedInput));
+  
+  // Report sanitizer and parser findings in input order
+  return {
+    ...result,
+    diagnostics: [...diagnostics, ...result.diagnostics].sort(
+      (a, b) => a.line - b.line || a.column - b.column
+    ),
+    format: handler.format,
+  };
+}
+
+/**
+ * Main parser function that detects format and parses accordingly
+ * Pasted documents such as READMEs are searched for trees first; the
+ * selected tree is parsed and the rest of the document is reported.
+ *
+ * @param input - Directory structure text
+ * @param format - Format to parse as; detected automatically when omitted
+ * @param treeIndex - Tree to parse when the input is a document with several
+ */
+export function parseDirectoryStructure(input: string, format?: InputFormat, treeIndex = 0): ParseResult {
+  // Validate input
+  if (!input || !input.trim()) {
+    return {
+      success: false,
+      error: 'Input is empty. Please provide a directory structure.',
+      diagnostics: [],
     };
   }
   
-  // Parse based on detected format
-  if (format === 'markdown') {
-    return parseMarkdown(sanitizedInput);
-  } else {
-    return parseAscii(sanitizedInput);
+  // Detected once and passed on, as detection reads the whole input
+  const detection = format && format !== 'unknown' ? undefined : detectInputFormat(input);
+  const wholeFormat = detection?.format ?? format!;
+  
+  // Structured input is never a document with trees inside it
+  const trees = INPUT_FORMAT_HANDLERS.some(entry => entry.format === wholeFormat && entry.usesRawInput)
+    ? []
+    : findDocumentTrees(input, detection);
+  
+  if (trees.length === 0) {
+    return parseText(input, wholeFormat);
   }
+  
+  // Blank everything outside the selected tree so line numbers still match the input
+  const index = Math.min(Math.max(treeIndex, 0), trees.length - 1);
+  const selected = trees[index];
+  const treeInput = input
+    .split('\n')
+    .map((line, i) => (i + 1 >= selected.startLine && i + 1 <= selected.endLine ? line : ''))
+    .join('\n');
+  
+  const result = parseText(treeInput, resolveFormat(treeInput, format));
+  
+  return {
+    ...result,
+    diagnostics: [...describeIgnoredLines(input, trees, selected), ...result.diagnostics].sort(
+      (a, b) => a.line - b.line || a.column - b.column
+    ),
+    trees,
+    treeIndex: index,
+  };
 }
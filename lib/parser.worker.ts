@@ -0,0 +1,47 @@
+import { detectInputFormat, parseDirectoryStructure } from './parser';
+import { countNodes, splitTreeIntoChunks } from './chunks';
+import { ParseWorkerRequest, ParseWorkerResponse } from './types';
+
+/**
+ * Web Worker entry point that parses input, or detects its format, off the main thread
+ * The parsed tree is posted back in chunks so the page can render it progressively.
+ */
+const worker = self as unknown as Worker;
+
+const post = (message: ParseWorkerResponse) => worker.postMessage(message);
+
+worker.onmessage = (event: MessageEvent<ParseWorkerRequest>) => {
+  if (event.data.type === 'detect') {
+    post({ type: 'detection', detection: detectInputFormat(event.data.input) });
+    return;
+  }
+  
+  const { input, format, treeIndex, chunkSize } = event.data;
+  
+  post({ type: 'progress', progress: { phase: 'parsing', total: input.split('\n').length } });
+  
+  const result = parseDirectoryStructure(input, format, treeIndex);
+  
+  const details = {
+    diagnostics: result.diagnostics,
+    format: result.format,
+    trees: result.trees,
+    treeIndex: result.treeIndex,
+  };
+  
+  if (!result.success) {
+    post({ type: 'error', error: result.error, ...details });
+    return;
+  }
+  
+  const total = countNodes(result.nodes);
+  post({ type: 'start', ...details, total });
+  
+  let loaded = 0;
+  for (const chunk of splitTreeIntoChunks(result.nodes, chunkSize)) {
+    loaded += countNodes(chunk.nodes);
+    post({ type: 'chunk', chunk, loaded });
+  }
+  
+  post({ type: 'done' });
+};
@@ -0,0 +1,172 @@
+/**
+ * PNG text module for storing the tree source inside exported images
+ * Text goes in iTXt chunks, which any PNG reader skips, so the image itself
+ * is unchanged.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Keyword of the chunk holding the tree source, as native JSON
+ */
+export const TREE_SOURCE_KEYWORD = 'directory-structure';
+
+/**
+ * CRC-32 lookup table, as used by PNG chunk checksums
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Whether a file looks like a PNG image
+ */
+export function isPngFile(file: { name: string; type?: string }): boolean {
+  return file.type === 'image/png' || /\.png$/i.test(file.name);
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * A chunk's type, where its data starts, and where the next chunk starts
+ */
+interface PngChunk {
+  type: string;
+  dataStart: number;
+  dataEnd: number;
+  end: number;
+}
+
+/**
+ * Lists the chunks of a PNG file in order
+ */
+function readChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  // Each chunk is a length, a four-letter type, the data and a CRC
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > bytes.length) {
+      throw new Error(`The PNG ${type} chunk is truncated`);
+    }
+
+    chunks.push({ type, dataStart, dataEnd, end: dataEnd + 4 });
+    offset = dataEnd + 4;
+    if (type === 'IEND') {
+      break;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Reads the uncompressed tEXt and iTXt chunks of a PNG, by keyword
+ * Compressed text is skipped; this app never writes it.
+ */
+export function readPngText(bytes: Uint8Array): Record<string, string> {
+  const text: Record<string, string> = {};
+  const utf8 = new TextDecoder();
+  const latin1 = new TextDecoder('latin1');
+
+  for (const chunk of readChunks(bytes)) {
+    const data = bytes.subarray(chunk.dataStart, chunk.dataEnd);
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd === -1) {
+      continue;
+    }
+    const keyword = latin1.decode(data.subarray(0, keywordEnd));
+
+    if (chunk.type === 'tEXt') {
+      text[keyword] = latin1.decode(data.subarray(keywordEnd + 1));
+    } else if (chunk.type === 'iTXt' && data[keywordEnd + 1] === 0) {
+      // Compression flag and method, then the language tag and translated keyword
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = languageEnd === -1 ? -1 : data.indexOf(0, languageEnd + 1);
+      if (translatedEnd !== -1) {
+        text[keyword] = utf8.decode(data.subarray(translatedEnd + 1));
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Adds an uncompressed UTF-8 iTXt chunk to a PNG, just before its end
+ * A text chunk with the same keyword is replaced.
+ */
+export function writePngText(bytes: Uint8Array, keyword: string, text: string): Uint8Array {
+  const chunks = readChunks(bytes);
+  const end = chunks.find(chunk => chunk.type === 'IEND');
+  if (!end) {
+    throw new Error('The PNG image has no end chunk');
+  }
+
+  const encoder = new TextEncoder();
+  const keywordBytes = encoder.encode(keyword);
+  const textBytes = encoder.encode(text);
+
+  // Type, keyword, NUL, compression flag and method, empty language tag and translated keyword, text
+  const body = new Uint8Array(4 + keywordBytes.length + 5 + textBytes.length);
+  body.set(encoder.encode('iTXt'), 0);
+  body.set(keywordBytes, 4);
+  body.set(textBytes, 4 + keywordBytes.length + 5);
+
+  const chunk = new Uint8Array(body.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length - 4);
+  chunk.set(body, 4);
+  view.setUint32(chunk.length - 4, crc32(body));
+
+  // Existing text under this keyword is dropped so a re-export does not pile up copies
+  const isSameKeyword = (candidate: PngChunk) => {
+    if (candidate.type !== 'tEXt' && candidate.type !== 'iTXt') {
+      return false;
+    }
+    const data = bytes.subarray(candidate.dataStart, candidate.dataEnd);
+    const keywordEnd = data.indexOf(0);
+    return keywordEnd === keywordBytes.length && keywordBytes.every((byte, index) => data[index] === byte);
+  };
+
+  const parts = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const candidate of chunks) {
+    if (candidate === end) {
+      parts.push(chunk);
+    }
+    if (!isSameKeyword(candidate)) {
+      parts.push(bytes.subarray(candidate.dataStart - 8, candidate.end));
+    }
+  }
+
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -11,15 +11,46 @@ export interface TreeNode {
   /** Display name of the file or folder */
   name: string;
   /** Type of the node */
-  type: 'file' | 'folder';
+  type: 'file' | 'folder' | 'symlink';
+  /** Path the link points to (only for symlinks) */
+  target?: string;
   /** Child nodes (only for folders) */
   children?: TreeNode[];
   /** Whether the folder is expanded (only for folders) */
   isExpanded?: boolean;
   /** Depth level in the tree hierarchy (0 for root) */
   depth: number;
+  /** Task checkbox state when the entry came from a `- [ ]` or `- [x]` list item */
+  checked?: boolean;
+  /** Annotation written next to the entry as a # comment */
+  description?: string;
+  /** Size in bytes, from `tree -s`/`tree -h` or `du` */
+  size?: number;
+  /** Modification time as printed by `tree -D` */
+  modified?: string;
+  /** Permission string as printed by `tree -p` (e.g. -rw-r--r--) */
+  mode?: string;
+  /** How the entry changed, from `git status` or `git diff --name-status` */
+  status?: ChangeStatus;
+  /** Path the entry was moved from (only for renamed entries) */
+  renamedFrom?: string;
 }
 
+/**
+ * Sizes in bytes of the nodes of a tree, with folders rolled up from their contents
+ */
+export type NodeSizes = Map<TreeNode, number | undefined>;
+
+/**
+ * Metadata columns a node can carry
+ */
+export type NodeMetadata = Pick<TreeNode, 'size' | 'modified' | 'mode'>;
+
+/**
+ * Change made to a file, as reported by git
+ */
+export type ChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
 /**
  * Application state for the tree structure
  */
@@ -37,16 +68,128 @@ export type TreeAction =
   | { type: 'SET_TREE'; payload: TreeNode[] }
   | { type: 'TOGGLE_EXPAND'; payload: string }
   | { type: 'RENAME_NODE'; payload: { id: string; name: string } }
+  | { type: 'SET_DESCRIPTION'; payload: { id: string; description: string } }
   | { type: 'DELETE_NODE'; payload: string }
   | { type: 'SELECT_NODE'; payload: string | null }
-  | { type: 'ADD_NODE'; payload: { parentId: string; nodeType: 'file' | 'folder' } };
+  | { type: 'ADD_NODE'; payload: { parentId: string; nodeType: 'file' | 'folder' } }
+  | { type: 'APPEND_NODES'; payload: TreeChunk };
+
+/**
+ * A warning or error found while parsing, tied to a position in the input
+ */
+export interface ParseDiagnostic {
+  /** 1-based line number in the original input */
+  line: number;
+  /** 1-based column number in the original input */
+  column: number;
+  /** Whether the problem prevented parsing or only affected the result */
+  severity: 'error' | 'warning';
+  /** Human-readable description of the problem */
+  message: string;
+  /** Optional suggestion for correcting the input */
+  fix?: string;
+}
+
+/**
+ * A directory tree found inside a larger document, such as a fenced block in a README
+ */
+export interface ExtractedTree {
+  /** 1-based line of the tree's first entry */
+  startLine: number;
+  /** 1-based line of the tree's last entry */
+  endLine: number;
+  /** Nearest heading, the fence's language tag, or a numbered fallback */
+  label: string;
+}
+
+/**
+ * Details reported alongside both successful and failed parses
+ */
+export interface ParseDetails {
+  diagnostics: ParseDiagnostic[];
+  format?: InputFormat;
+  /** Every tree found when the input is a document, in input order */
+  trees?: ExtractedTree[];
+  /** Which of the trees was parsed */
+  treeIndex?: number;
+}
 
 /**
  * Result type for parsing operations
  */
 export type ParseResult =
-  | { success: true; nodes: TreeNode[] }
-  | { success: false; error: string };
+  | ({ success: true; nodes: TreeNode[] } & ParseDetails)
+  | ({ success: false; error: string } & ParseDetails);
+
+/**
+ * Native JSON representation of a tree node used for import and export
+ * A document is an array of these, e.g.
+ * [{ "name": "src", "type": "folder", "children": [{ "name": "index.ts", "type": "file" }] }]
+ */
+export interface TreeNodeJson {
+  /** Name of the file or folder */
+  name: string;
+  /** Type of the node */
+  type: 'file' | 'folder' | 'symlink';
+  /** Path the link points to (only for symlinks) */
+  target?: string;
+  /** Child nodes (only for folders) */
+  children?: TreeNodeJson[];
+  /** Annotation for the entry */
+  description?: string;
+  /** Size in bytes */
+  size?: number;
+  /** Modification time */
+  modified?: string;
+  /** Permission string */
+  mode?: string;
+  /** Change made to the entry */
+  status?: ChangeStatus;
+  /** Path the entry was moved from */
+  renamedFrom?: string;
+}
+
+/**
+ * Entry in the JSON document produced by `tree -J`
+ */
+export interface TreeCommandJsonEntry {
+  /** Entry kind; `report` carries the directory and file counts */
+  type: 'directory' | 'file' | 'link' | 'report' | string;
+  /** Name of the entry (absent on the report) */
+  name?: string;
+  /** Path the link points to (only for links) */
+  target?: string;
+  /** Size in bytes (with -s) */
+  size?: number;
+  /** Permission string (with -p) */
+  prot?: string;
+  /** Modification time (with -D) */
+  time?: string | number;
+  /** Nested entries (only for directories) */
+  contents?: TreeCommandJsonEntry[];
+  /** Number of directories (only on the report) */
+  directories?: number;
+  /** Number of files (only on the report) */
+  files?: number;
+}
+
+/**
+ * One entry of a flat listing of paths, such as a path list or an imported folder
+ */
+export interface PathEntry {
+  /** Path split into its folder and file names */
+  segments: string[];
+  /** Whether the entry is a folder even if nothing is listed inside it */
+  isFolder?: boolean;
+  description?: string;
+  size?: number;
+  modified?: string;
+  mode?: string;
+  /** Link target, making the entry a symlink */
+  target?: string;
+  status?: ChangeStatus;
+  renamedFrom?: string;
+}
 
 /**
  * Parser function type that converts text input to tree structure
@@ -61,7 +204,76 @@ export type FormatterFunction = (nodes: TreeNode[]) => string;
 /**
  * Supported input formats for directory structures
  */
-export type InputFormat = 'markdown' | 'ascii' | 'unknown';
+export type InputFormat =
+  | 'markdown'
+  | 'ascii'
+  | 'windows-tree'
+  | 'windows-paths'
+  | 'paths'
+  | 'du'
+  | 'json'
+  | 'tree-json'
+  | 'yaml'
+  | 'git'
+  | 'unknown';
+
+/**
+ * How confidently the input matches one format
+ */
+export interface FormatScore {
+  format: InputFormat;
+  /** Confidence between 0 and 1 */
+  confidence: number;
+}
+
+/**
+ * Result of scoring the input against every supported format
+ */
+export interface FormatDetection extends FormatScore {
+  /** Every format with a non-zero score, best first */
+  scores: FormatScore[];
+  /** Formats scoring almost as well as the best match */
+  alternatives: FormatScore[];
+}
+
+/**
+ * Supported output styles for formatted text
+ */
+export type FormatStyle =
+  | 'markdown'
+  | 'ascii'
+  | 'json'
+  | 'tree-json'
+  | 'yaml'
+  | 'paths'
+  | 'csv'
+  | 'tsv'
+  | 'mermaid'
+  | 'mermaid-mindmap'
+  | 'dot'
+  | 'plantuml'
+  | 'plantuml-salt';
+
+/**
+ * Built-in connector glyph sets for ASCII output
+ * 'windows' also switches to the `tree /F` layout, where folders carry the
+ * connectors and files are listed beneath them without one.
+ */
+export type GlyphSetName = 'unicode' | 'ascii' | 'rounded' | 'heavy' | 'double' | 'windows';
+
+/**
+ * The characters a text tree is drawn with
+ */
+export interface ConnectorGlyphs {
+  /** Starts the line of an entry with siblings below it, e.g. ├ */
+  branch: string;
+  /** Starts the line of the last entry in a folder, e.g. └ */
+  last: string;
+  /** Continues a folder's line past the entries of a sibling above, e.g. │ */
+  vertical: string;
+  /** Extends a connector towards the name, e.g. ─ */
+  horizontal: string;
+}
 
 /**
  * Options for formatting output text
@@ -72,5 +284,90 @@ export interface FormatOptions {
   /** Indentation string (default: '  ') */
   indent?: string;
   /** Format style to use */
-  style?: 'markdown' | 'ascii';
+  style?: FormatStyle;
+  /** Whether to write size, date and mode metadata (default: true) */
+  includeMetadata?: boolean;
+  /** Whether to write +/~/-/> change markers for git statuses (default: true) */
+  includeStatus?: boolean;
+  /** Connector glyphs for ASCII output, by name or as a custom set (default: 'unicode') */
+  glyphs?: GlyphSetName | ConnectorGlyphs;
+  /** Columns per level in ASCII output, at least 3 (default: 4) */
+  indentWidth?: number;
+  /** Separator between segments in path lists and tables (default: 'posix') */
+  pathSeparator?: 'posix' | 'windows';
+  /** Whether path lists and tables leave out folders (default: false) */
+  filesOnly?: boolean;
+}
+
+/**
+ * A batch of complete subtrees to append under a folder, or at the root when parentId is null
+ */
+export interface TreeChunk {
+  parentId: string | null;
+  nodes: TreeNode[];
+}
+
+/**
+ * How far a background parse has got
+ * Parsing the text is a single call with no count of lines read, so that phase
+ * only gives the line total and shows as indeterminate; loading counts the
+ * nodes delivered out of the nodes parsed.
+ */
+export type ParseProgress =
+  | { phase: 'parsing'; total: number }
+  | { phase: 'loading'; loaded: number; total: number };
+
+/**
+ * Message sent to the parser worker: parse the input, or only detect its format
+ */
+export type ParseWorkerRequest =
+  | {
+      type: 'parse';
+      input: string;
+      format?: InputFormat;
+      /** Which tree to parse when the input is a document holding several */
+      treeIndex?: number;
+      /** Maximum number of nodes per chunk */
+      chunkSize: number;
+    }
+  | { type: 'detect'; input: string };
+
+/**
+ * Messages sent back by the parser worker, in order:
+ * progress, then either error or start, chunks and done
+ * A detect request gets a single detection message instead.
+ */
+export type ParseWorkerResponse =
+  | { type: 'detection'; detection: FormatDetection }
+  | { type: 'progress'; progress: ParseProgress }
+  | ({ type: 'error'; error: string } & ParseDetails)
+  | ({ type: 'start'; total: number } & ParseDetails)
+  | { type: 'chunk'; chunk: TreeChunk; loaded: number }
+  | { type: 'done' };
+
+/**
+ * Filters and limits applied when importing a local folder
+ */
+export interface FolderImportOptions {
+  skipNodeModules: boolean;
+  skipGit: boolean;
+  /** Skip files and folders whose names start with a dot */
+  skipDotfiles: boolean;
+  /** Deepest level to list below the imported folder, as with `tree -L` */
+  maxDepth: number | null;
+  /** Stop after this many files and folders */
+  maxEntries: number | null;
+}
+
+/**
+ * Tree built from a local folder or archive, with what was left out of it
+ */
+export interface FolderImportResult {
+  nodes: TreeNode[];
+  /** Number of files and folders in the tree */
+  entryCount: number;
+  /** Number of files and folders left out by the skip options */
+  skippedCount: number;
+  /** Whether the entry limit cut the listing short or folders at the depth limit went unread */
+  truncated: boolean;
 }